@@ -0,0 +1,128 @@
+// Local stand-in for the parts of the Vercel REST API that Code Studio uses.
+// Start it with `npm run vercel:stand-in`, then set VITE_VERCEL_API_URL=http://localhost:4010
+// (or enter that URL under the deploy dialog's advanced settings) and deploy with any token.
+// Projects whose name contains "fail" end in an ERROR state to exercise the failure path.
+import { createServer } from "node:http";
+import { randomBytes } from "node:crypto";
+
+const PORT = Number(process.env.PORT || 4010);
+const deployments = new Map();
+
+const BUILD_STEPS = [
+  { after: 300, state: 'INITIALIZING', log: 'Cloning files from upload' },
+  { after: 900, state: 'BUILDING', log: 'Running "install" command' },
+  { after: 1800, log: 'Running "build" command' },
+  { after: 2700, log: 'Build completed' },
+  { after: 3200, state: 'READY', log: 'Deployment ready' },
+];
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(data ? JSON.parse(data) : {});
+    } catch (error) {
+      reject(error);
+    }
+  });
+});
+
+const publicView = ({ files, events, ...deployment }) => deployment;
+
+function startBuild(deployment) {
+  const fails = deployment.name.includes('fail');
+  for (const step of BUILD_STEPS) {
+    setTimeout(() => {
+      if (fails && step.state === 'READY') {
+        deployment.readyState = 'ERROR';
+        deployment.errorMessage = 'Command "npm run build" exited with 1';
+        deployment.events.push({ type: 'stderr', created: Date.now(), payload: { text: deployment.errorMessage } });
+        return;
+      }
+      if (step.state) deployment.readyState = step.state;
+      deployment.events.push({ type: 'stdout', created: Date.now(), payload: { text: step.log } });
+    }, step.after);
+  }
+}
+
+async function createDeployment(req, res) {
+  const body = await readBody(req);
+  if (!body.name || !Array.isArray(body.files) || body.files.length === 0) {
+    return send(res, 400, { error: { code: 'bad_request', message: 'name and files are required' } });
+  }
+
+  const id = `dpl_${randomBytes(8).toString('hex')}`;
+  const deployment = {
+    id,
+    name: body.name,
+    url: `http://localhost:${PORT}/_deployments/${id}/`,
+    readyState: 'QUEUED',
+    createdAt: Date.now(),
+    files: new Map(body.files.map(file => [file.file, file.data])),
+    events: [{ type: 'stdout', created: Date.now(), payload: { text: `Uploaded ${body.files.length} files` } }],
+  };
+  deployments.set(id, deployment);
+  startBuild(deployment);
+  send(res, 200, publicView(deployment));
+}
+
+// Newline-delimited events, held open until the build reaches a final state
+function streamEvents(deployment, res) {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+  let sent = 0;
+  const flush = () => {
+    while (sent < deployment.events.length) res.write(`${JSON.stringify(deployment.events[sent++])}\n`);
+    if (['READY', 'ERROR', 'CANCELED'].includes(deployment.readyState)) {
+      clearInterval(timer);
+      res.end();
+    }
+  };
+  const timer = setInterval(flush, 200);
+  res.on('close', () => clearInterval(timer));
+  flush();
+}
+
+function serveFile(deployment, path, res) {
+  const name = path || 'index.html';
+  const content = deployment.files.get(name) ?? deployment.files.get(`${name.replace(/\/$/, '')}/index.html`);
+  if (content === undefined) return send(res, 404, { error: { code: 'not_found', message: `${name} not found` } });
+  const type = name.endsWith('.html') ? 'text/html' : name.endsWith('.css') ? 'text/css' : name.endsWith('.js') ? 'text/javascript' : 'text/plain';
+  res.writeHead(200, { 'Content-Type': `${type}; charset=utf-8` });
+  res.end(content);
+}
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') return res.writeHead(204).end();
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const served = url.pathname.match(/^\/_deployments\/([^/]+)\/(.*)$/);
+  if (served && deployments.has(served[1])) return serveFile(deployments.get(served[1]), served[2], res);
+
+  if (!/^Bearer \S+/.test(req.headers.authorization || '')) {
+    return send(res, 403, { error: { code: 'forbidden', message: 'Not authorized' } });
+  }
+
+  try {
+    if (req.method === 'POST' && url.pathname === '/v13/deployments') return await createDeployment(req, res);
+
+    const match = url.pathname.match(/^\/v(?:13|3)\/deployments\/([^/]+)(\/events)?$/);
+    const deployment = match && deployments.get(match[1]);
+    if (!deployment) return send(res, 404, { error: { code: 'not_found', message: 'Deployment not found' } });
+
+    if (match[2]) return streamEvents(deployment, res);
+    send(res, 200, publicView(deployment));
+  } catch (error) {
+    send(res, 500, { error: { code: 'internal_error', message: String(error) } });
+  }
+});
+
+server.listen(PORT, () => console.log(`Vercel API stand-in listening on http://localhost:${PORT}`));
@@ -1,76 +1,177 @@
-import { useState, useRef, useEffect } from "react";
+import { Fragment, useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import ChatMessage from "./ChatMessage";
 import StreamingMessage from "./StreamingMessage";
 import ServiceSelector from "./ServiceSelector";
+import ModelPicker from "./ModelPicker";
+import GenerationSettings from "./GenerationSettings";
+import PersonaPicker from "./PersonaPicker";
+import ContextMeter from "./ContextMeter";
+import SummaryCard from "./SummaryCard";
 import ContactDialog from "./ContactDialog";
 import CodeInterface from "./CodeInterface";
-import VercelDeploy from "./VercelDeploy";
-import { aiService, AIStreamChunk } from "@/services/aiService";
-import { Send, Plus, Copy, Code, MessageCircle, Rocket, Image, Sparkles, Menu, X, Zap, Brain, Cpu, Wand2, Square, Trash2 } from "lucide-react";
+import DeployDialog from "./DeployDialog";
+import SettingsDialog from "./SettingsDialog";
+import ConnectionStatus, { StatusDot } from "./ConnectionStatus";
+import { aiService, AIMessage, AIRequestHandle, AIRequestOptions, AIStreamChunk } from "@/services/aiService";
+import ConversationSidebar from "./ConversationSidebar";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { Send, Plus, Copy, Code, MessageCircle, Rocket, Image, Sparkles, Menu, X, Zap, Brain, Cpu, Wand2, Square, Trash2, Settings } from "lucide-react";
 import PandaLogo from "./PandaLogo";
 import { useTheme } from "./ThemeProvider";
 import { toast } from "@/components/ui/sonner";
+import { useConversations } from "@/hooks/use-conversations";
+import { useAIRequests } from "@/hooks/use-ai-requests";
+import { useIsReachable } from "@/hooks/use-health";
+import { classifyService, logRoutingCorrection, type ClassifierAttachment } from "@/services/classifier";
+import { SERVICE_LABELS } from "@/services/models";
+import { personaLibrary } from "@/services/personas";
+import { activePath, latestLeaf, siblingsOf } from "@/lib/messageTree";
+import { currentSummary, historyAfterSummary, messagesToSummarize, summarizedCount, summaryRequest } from "@/lib/summary";
+import type { Conversation, Message, RoutedService, ServiceType } from "@/types/chat";
 
-interface Message {
-  id: string;
-  content: string;
-  role: 'user' | 'assistant';
-  timestamp: Date;
-  image?: string;
-  imageUrl?: string;
-  isStreaming?: boolean;
-  model?: string;
-}
+const FILE_MESSAGE_PREFIX = '📄 **File Analyzed:**';
 
-type ServiceType = 'auto' | 'code' | 'creative' | 'knowledge' | 'general';
+// Uploads waiting for the next prompt: the user turns since the last reply
+const pendingAttachments = (messages: Message[]): ClassifierAttachment[] => {
+  const attachments: ClassifierAttachment[] = [];
+  for (let i = messages.length - 1; i >= 0 && messages[i].role === 'user'; i--) {
+    if (messages[i].image) attachments.push({ kind: 'image' });
+    else if (messages[i].content.startsWith(FILE_MESSAGE_PREFIX)) attachments.push({ kind: 'file', content: messages[i].content });
+  }
+  return attachments;
+};
+
+const toHistory = (messages: Message[]): AIMessage[] =>
+  messages.map(m => ({ role: m.role, content: m.content, image: m.image, pinned: m.pinned }));
+
+// A reply being streamed into a conversation; the handle arrives once the request is sent
+interface ActiveStream {
+  messageId: string;
+  handle?: AIRequestHandle;
+}
 
 const ChatInterface = () => {
   const { theme, toggleTheme } = useTheme();
-  const [messages, setMessages] = useState<Message[]>(() => {
-    const savedMessages = localStorage.getItem('pandanexus-chat-history');
-    if (savedMessages) {
-      try {
-        const parsed = JSON.parse(savedMessages);
-        return parsed.map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        }));
-      } catch (e) {
-        console.error('Error loading chat history:', e);
-      }
-    }
-    
-    return [
-      {
-        id: '1',
-        content: "🚀 **Welcome to PandaNexus - World's Fastest AI Platform!**\n\nI'm your quantum-powered AI companion, engineered by Shakeel to deliver:\n\n• ⚡ **Lightning Responses** - Instant AI interactions\n• 💻 **Code Studio Pro** - Advanced development environment\n• 🎨 **AI Art Engine** - Instant image generation\n• 🌐 **One-Click Deploy** - Deploy to Vercel instantly\n• 🧠 **Multi-Modal Genius** - Text, code, and image mastery\n• 🔧 **Smart Spell Check** - AI-powered text optimization\n\nReady to build something revolutionary? Let's create the impossible! 🌟",
-        role: 'assistant',
-        timestamp: new Date(),
-        model: 'PandaNexus Quantum Engine'
-      }
-    ];
-  });
-  
+  const {
+    isLoaded,
+    conversations,
+    activeConversation,
+    getConversation,
+    selectConversation,
+    newConversation,
+    renameConversation,
+    togglePinConversation,
+    deleteConversation,
+    setConversationMessages,
+    setConversationLeaf,
+    setConversationService,
+    setConversationParams,
+    setConversationPersona,
+    setConversationSummary,
+    setConversationSummarize,
+  } = useConversations();
+  // The branch being shown; the conversation keeps every version
+  const messages = activePath(activeConversation.messages, activeConversation.activeLeafId);
+  const selectedService = activeConversation.service;
   const [inputValue, setInputValue] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
-  const [selectedService, setSelectedService] = useState<ServiceType>('auto');
+  // Model for the next message only; empty follows the service's route
+  const [modelOverride, setModelOverride] = useState("");
   const [showCodeInterface, setShowCodeInterface] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
-  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  // Replies streaming per conversation; switching away leaves them running
+  const [streams, setStreams] = useState<Record<string, ActiveStream>>({});
+  const activeStream = streams[activeConversation.id];
+  const isLoading = !!activeStream;
+  const streamingMessageId = activeStream?.messageId ?? null;
+  const requests = useAIRequests();
+  // Prompts sent while the provider is unreachable wait in their conversation
+  const isReachable = useIsReachable();
+  const queuedCount = conversations.reduce((count, c) => count + c.messages.filter(m => m.queued).length, 0);
+  // Conversations whose queued prompts are being sent
+  const sendingQueued = useRef(new Set<string>());
   const [isSpellChecking, setIsSpellChecking] = useState(false);
+  // Conversation whose older turns are being summarized
+  const [summarizingId, setSummarizingId] = useState<string | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Save messages to localStorage
-  useEffect(() => {
-    localStorage.setItem('pandanexus-chat-history', JSON.stringify(messages));
-  }, [messages]);
+  const setMessages = (updater: (messages: Message[]) => Message[]) => {
+    setConversationMessages(activeConversation.id, updater);
+  };
+
+  // Add a message to the end of the branch being shown
+  const appendMessage = (message: Message) => {
+    setMessages(prev => [...prev, message]);
+    setConversationLeaf(activeConversation.id, message.id);
+  };
+
+  const setStream = (conversationId: string, stream?: ActiveStream) => {
+    setStreams(prev => {
+      const { [conversationId]: _previous, ...rest } = prev;
+      return stream ? { ...rest, [conversationId]: stream } : rest;
+    });
+  };
+
+  const setSelectedService = (service: ServiceType) => {
+    setConversationService(activeConversation.id, service);
+  };
+
+  const summary = currentSummary(messages, activeConversation.summary);
+
+  // Model, parameters, persona and summary for a request answered by `service`
+  const requestOptions = (service: ServiceType, model?: string, conversation: Conversation = activeConversation): AIRequestOptions => ({
+    model,
+    params: conversation.params,
+    system: personaLibrary.systemPrompt(service === 'auto' ? 'general' : service, conversation.personaId, {}),
+    summary: summary?.content
+  });
+
+  // What the next request would send, for the context meter
+  const draftContext = aiService.buildContext(
+    [...toHistory(historyAfterSummary(messages, summary)), { role: 'user', content: inputValue }],
+    selectedService,
+    requestOptions(selectedService, modelOverride || undefined)
+  );
+
+  // Fold older turns of `thread` into the conversation's summary once its window fills up
+  const summarize = async (conversationId: string, thread: Message[], service: ServiceType, options: AIRequestOptions, force = false) => {
+    // Read at call time: this often runs from a stream that started several renders ago
+    const stored = getConversation(conversationId)?.summary;
+    const previous = currentSummary(thread, stored);
+    const context = aiService.buildContext(toHistory(historyAfterSummary(thread, previous)), service, { ...options, summary: previous?.content });
+    const pending = messagesToSummarize(thread, previous, context, force);
+    if (pending.length === 0) {
+      if (force) toast.info("Nothing to summarize yet", { description: "The latest messages are always sent in full", duration: 1500 });
+      return;
+    }
+
+    setSummarizingId(conversationId);
+    try {
+      const response = await aiService.complete(summaryRequest(previous?.content, pending), { temperature: 0.2, maxTokens: 600 }, { service });
+      if (!response.content.trim()) return;
+      const next = {
+        content: response.content.trim(),
+        throughId: pending[pending.length - 1].id,
+        messageCount: summarizedCount(thread, previous) + pending.length,
+        createdAt: new Date()
+      };
+      // A summary written while this one was generated wins; this one was built on the older state
+      setConversationSummary(conversationId, current => current === stored ? next : current);
+    } catch (error) {
+      console.error('Summarization failed:', error);
+      if (force) toast.error("Couldn't summarize the conversation", { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setSummarizingId(null);
+    }
+  };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -78,6 +179,26 @@ const ChatInterface = () => {
 
   useEffect(scrollToBottom, [messages]);
 
+  // Send the prompts queued while offline once the provider can be reached again: oldest first,
+  // each waiting for the reply to the one before. Checked after every render.
+  const sendQueued = () => {
+    if (showCodeInterface || !isReachable) return;
+    for (const conversation of conversations) {
+      if (streams[conversation.id] || sendingQueued.current.has(conversation.id)) continue;
+      const thread = activePath(conversation.messages, conversation.activeLeafId);
+      const index = thread.findIndex(m => m.queued);
+      if (index === -1) continue;
+
+      const prompt = thread[index];
+      sendingQueued.current.add(conversation.id);
+      setConversationMessages(conversation.id, prev => prev.map(m => (m.id === prompt.id ? { ...m, queued: undefined } : m)));
+      streamReply(conversation, thread.slice(0, index), prompt, false, undefined, thread.slice(index + 1))
+        .finally(() => sendingQueued.current.delete(conversation.id));
+    }
+  };
+
+  useEffect(sendQueued);
+
   // Auto-switch to Code Studio
   useEffect(() => {
     if (selectedService === 'code') {
@@ -113,9 +234,10 @@ const ChatInterface = () => {
           content: "🖼️ I've uploaded an image for AI analysis. What would you like me to tell you about it?",
           role: 'user',
           timestamp: new Date(),
-          image: imageUrl
+          image: imageUrl,
+          parentId: messages[messages.length - 1]?.id ?? null
         };
-        setMessages(prev => [...prev, fileMessage]);
+        appendMessage(fileMessage);
         toast.success("📸 Image uploaded!", {
           description: "AI will analyze with superhuman precision",
           duration: 1500,
@@ -128,11 +250,12 @@ const ChatInterface = () => {
         const content = e.target?.result as string;
         const fileMessage: Message = {
           id: Date.now().toString(),
-          content: `📄 **File Analyzed:**\n\`\`\`\n${content.slice(0, 1500)}${content.length > 1500 ? '\n... (truncated)' : ''}\n\`\`\``,
+          content: `${FILE_MESSAGE_PREFIX}\n\`\`\`\n${content.slice(0, 1500)}${content.length > 1500 ? '\n... (truncated)' : ''}\n\`\`\``,
           role: 'user',
-          timestamp: new Date()
+          timestamp: new Date(),
+          parentId: messages[messages.length - 1]?.id ?? null
         };
-        setMessages(prev => [...prev, fileMessage]);
+        appendMessage(fileMessage);
         toast.success("📁 File processed!", {
           description: "Content ready for AI analysis",
           duration: 1500,
@@ -181,17 +304,9 @@ const ChatInterface = () => {
 
   // Stop/Cancel streaming
   const handleStopStreaming = () => {
-    if (isLoading && streamingMessageId) {
-      aiService.cancelRequest();
-      setIsLoading(false);
-      setStreamingMessageId(null);
-      
-      // Update the streaming message to show it was stopped
-      setMessages(prev => prev.map(msg => 
-        msg.id === streamingMessageId 
-          ? { ...msg, content: msg.content + '\n\n⏹️ **Stopped by user**', isStreaming: false }
-          : msg
-      ));
+    // Only this conversation's reply stops; it reports back and closes its message itself
+    if (activeStream?.handle) {
+      activeStream.handle.cancel();
       
       toast.info("⏹️ Streaming stopped", {
         description: "Request cancelled successfully",
@@ -203,10 +318,10 @@ const ChatInterface = () => {
   // Ultra-fast streaming submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!inputValue.trim() || (isLoading && !streamingMessageId)) return;
+    if (!isLoaded || !inputValue.trim()) return;
 
     // If currently streaming, stop it
-    if (isLoading && streamingMessageId) {
+    if (isLoading) {
       handleStopStreaming();
       return;
     }
@@ -215,55 +330,102 @@ const ChatInterface = () => {
       id: Date.now().toString(),
       content: inputValue,
       role: 'user',
-      timestamp: new Date()
+      timestamp: new Date(),
+      parentId: messages[messages.length - 1]?.id ?? null
     };
 
-    setMessages(prev => [...prev, userMessage]);
     setInputValue("");
-    setIsLoading(true);
+    // Behind earlier queued prompts, so replies keep their order
+    if (!isReachable || messages.some(m => m.queued)) {
+      appendMessage({ ...userMessage, queued: true });
+      toast.info(isReachable ? "⏳ Queued" : "📴 Offline", {
+        description: isReachable ? "It goes out after the messages still waiting" : "Your message will be sent when the connection is back",
+        duration: 2000,
+      });
+      return;
+    }
+    await streamReply(activeConversation, messages, userMessage, true, modelOverride || undefined);
+  };
+
+  // Stream an answer to `userMessage`, which follows the `before` thread. New prompts are added;
+  // regenerated replies become another version next to the existing ones. `queuedAfter` are
+  // prompts still waiting behind a queued one; the reply is slotted in above them.
+  const streamReply = async (
+    conversation: Conversation,
+    before: Message[],
+    userMessage: Message,
+    addPrompt: boolean,
+    requestedModel?: string,
+    queuedAfter: Message[] = []
+  ) => {
+    // Pin the reply to this conversation even if the user switches away mid-stream
+    const conversationId = conversation.id;
+    const setMessages = (updater: (messages: Message[]) => Message[]) => {
+      setConversationMessages(conversationId, updater);
+    };
+    const thread = [...before, userMessage];
+
+    // Auto hands the prompt to the classifier; the decision rides on the reply
+    const route = conversation.service === 'auto'
+      ? await classifyService({ text: userMessage.content, attachments: pendingAttachments(before) })
+      : undefined;
+    const service = route?.service ?? conversation.service;
+
+    const chosenModel = aiService.resolveModel(service, requestedModel, !!userMessage.image);
+
+    if (addPrompt) setMessages(prev => [...prev, userMessage]);
+    if (requestedModel) setModelOverride("");
 
     // Create streaming message
     const streamingId = (Date.now() + 1).toString();
-    setStreamingMessageId(streamingId);
+    setStream(conversationId, { messageId: streamingId });
     
     const streamingMessage: Message = {
       id: streamingId,
       content: '',
       role: 'assistant',
       timestamp: new Date(),
-      isStreaming: true
+      isStreaming: true,
+      model: chosenModel,
+      route,
+      parentId: userMessage.id
     };
     
-    setMessages(prev => [...prev, streamingMessage]);
+    const next = queuedAfter[0];
+    const leafId = queuedAfter[queuedAfter.length - 1]?.id;
+    setMessages(prev => [...prev, streamingMessage].map(m => (m.id === next?.id ? { ...m, parentId: streamingId } : m)));
+    setConversationLeaf(conversationId, leafId ?? streamingId);
 
     try {
-      const recentMessages = messages.slice(-8);
-      const conversationHistory = [...recentMessages, userMessage].map(m => ({
-        role: m.role,
-        content: m.content,
-        image: m.image
-      }));
+      const summary = currentSummary(thread, conversation.summary);
+      const conversationHistory = toHistory(historyAfterSummary(thread, summary));
+      // Regenerating asks for a new answer; a queued prompt is still being asked for the first time
+      const options = { ...requestOptions(service, requestedModel, conversation), summary: summary?.content, fresh: !addPrompt && !userMessage.queued };
+      const summarizeAfterReply = conversation.summarize !== false;
 
       console.log('🚀 Quantum streaming activated...');
       let streamedContent = '';
-      let responseModel = 'PandaNexus-Pro';
+      let responseModel = chosenModel;
+      let fallbackFrom: string | undefined;
 
       const onChunkCallback = (chunk: AIStreamChunk) => {
         if (chunk.error) {
           console.error("Stream error:", chunk.error);
           setMessages(prev => prev.map(msg => 
             msg.id === streamingId 
-              ? { ...msg, content: chunk.chunk || 'Connection error occurred', isStreaming: false }
+              ? { ...msg, content: [streamedContent, chunk.chunk || 'Connection error occurred'].filter(Boolean).join('\n\n'), isStreaming: false }
               : msg
           ));
-          setIsLoading(false);
-          setStreamingMessageId(null);
+          setStream(conversationId);
           return;
         }
 
         if (chunk.model) {
           responseModel = chunk.model;
         }
+        if (chunk.fallbackFrom) {
+          fallbackFrom = chunk.fallbackFrom;
+        }
         
         if (!chunk.isFinal) {
           streamedContent += chunk.chunk;
@@ -289,32 +451,45 @@ const ChatInterface = () => {
                   content: streamedContent, 
                   isStreaming: false, 
                   model: responseModel,
+                  fallbackFrom,
                   imageUrl: imageUrl || undefined
                 }
               : msg
           ));
-          setIsLoading(false);
-          setStreamingMessageId(null);
+          setStream(conversationId);
           
           toast.success("🎉 Response complete!", {
             description: `${responseModel} - Lightning speed!`,
             duration: 1500,
           });
+
+          if (summarizeAfterReply) {
+            const reply: Message = { ...streamingMessage, content: streamedContent, isStreaming: false };
+            summarize(conversationId, [...thread, reply], service, options);
+          }
         }
       };
 
-      await aiService.sendMessageStream(
+      const handle = aiService.sendMessageStream(
         conversationHistory, 
-        selectedService,
-        onChunkCallback
+        service,
+        onChunkCallback,
+        { ...options, owner: conversationId }
       );
+      // Keep the handle for Stop, unless the reply already finished
+      setStreams(prev => prev[conversationId]?.messageId === streamingId
+        ? { ...prev, [conversationId]: { messageId: streamingId, handle } }
+        : prev);
+      await handle.done;
       
     } catch (error) {
       console.error("Chat error:", error);
       
-      setMessages(prev => prev.filter(msg => msg.id !== streamingId));
-      setIsLoading(false);
-      setStreamingMessageId(null);
+      setMessages(prev => prev
+        .filter(msg => msg.id !== streamingId)
+        .map(m => (m.id === next?.id ? { ...m, parentId: userMessage.id } : m)));
+      setConversationLeaf(conversationId, leafId ?? userMessage.id);
+      setStream(conversationId);
       
       toast.error("Failed to send message", {
         description: "Please check API connection",
@@ -323,6 +498,73 @@ const ChatInterface = () => {
     }
   };
 
+  // Send an edited prompt as a new version beside the original, with its own replies
+  const editAndResend = (messageId: string, content: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const original = messages[index];
+    if (!original || !content.trim() || isLoading) return;
+
+    const edited: Message = {
+      id: Date.now().toString(),
+      content,
+      role: 'user',
+      timestamp: new Date(),
+      image: original.image,
+      parentId: messages[index - 1]?.id ?? null
+    };
+    streamReply(activeConversation, messages.slice(0, index), edited, true, modelOverride || undefined);
+  };
+
+  // Ask again for the prompt a reply answers; the old reply stays as another version
+  const regenerate = (messageId: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const prompt = messages[index - 1];
+    if (!prompt || prompt.role !== 'user' || isLoading) return;
+    streamReply(activeConversation, messages.slice(0, index - 1), prompt, false, modelOverride || undefined);
+  };
+
+  // Switch to another version of a message, showing the newest replies under it
+  const showVersion = (messageId: string, step: number) => {
+    const versions = siblingsOf(activeConversation.messages, messageId);
+    const next = versions[versions.findIndex(m => m.id === messageId) + step];
+    if (next) setConversationLeaf(activeConversation.id, latestLeaf(activeConversation.messages, next.id));
+  };
+
+  const versionsOf = (messageId: string) => {
+    const versions = siblingsOf(activeConversation.messages, messageId);
+    return {
+      index: versions.findIndex(m => m.id === messageId),
+      count: versions.length,
+      onStep: (step: number) => showVersion(messageId, step)
+    };
+  };
+
+  // Record which service the user says Auto should have picked for a reply
+  const correctRoute = (messageId: string, corrected: RoutedService) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const route = messages[index]?.route;
+    if (!route) return;
+    const prompt = messages.slice(0, index).reverse().find(m => m.role === 'user');
+
+    setMessages(prev => prev.map(msg =>
+      msg.id === messageId
+        ? { ...msg, route: { ...route, correction: corrected === route.service ? undefined : corrected } }
+        : msg
+    ));
+    if (corrected === route.service) return;
+
+    logRoutingCorrection(prompt?.content ?? '', route, corrected)
+      .then(() => toast.success("🧭 Thanks, noted!", {
+        description: `Logged as ${SERVICE_LABELS[corrected]} to tune Auto routing`,
+        duration: 1500,
+      }))
+      .catch(error => console.error('Failed to log routing correction:', error));
+  };
+
+  const togglePin = (messageId: string) => {
+    setMessages(prev => prev.map(msg => (msg.id === messageId ? { ...msg, pinned: !msg.pinned } : msg)));
+  };
+
   const copyMessage = async (content: string) => {
     try {
       await navigator.clipboard.writeText(content);
@@ -341,9 +583,12 @@ const ChatInterface = () => {
     setTimeout(() => inputRef.current?.focus(), 50);
   };
 
-  // Clear chat properly
+  // Clear the active conversation's messages, keeping the conversation itself
   const clearChat = () => {
-    setMessages([
+    // A reply still streaming would otherwise keep writing into the cleared conversation
+    streams[activeConversation.id]?.handle?.cancel();
+    setStream(activeConversation.id);
+    setMessages(() => [
       {
         id: '1',
         content: "🧹 **Chat cleared! Ready for your next revolutionary project!**\n\nWhat incredible creation shall we build together?",
@@ -352,6 +597,7 @@ const ChatInterface = () => {
         model: 'PandaNexus Fresh Start'
       }
     ]);
+    setConversationLeaf(activeConversation.id, undefined);
     aiService.clearCache();
     toast.success("🧹 Chat cleared!", {
       description: "Ready for your next project",
@@ -360,337 +606,418 @@ const ChatInterface = () => {
   };
 
   return (
-    <div className="flex flex-col h-screen bg-background overflow-hidden">
-      {/* ULTRA-RESPONSIVE HEADER */}
-      <Card className="border-0 border-b border-glass-border bg-gradient-glass backdrop-blur-xl shrink-0 shadow-glow">
-        <div className="flex items-center justify-between p-2 sm:p-3 md:p-4">
-          {/* Logo and Title */}
-          <div className="flex items-center gap-2 md:gap-3 min-w-0 flex-1">
-            <div className="relative">
-              <PandaLogo className="w-7 h-7 sm:w-8 sm:h-8 md:w-10 md:h-10 shrink-0" animate />
-              <div className="absolute -top-0.5 -right-0.5 w-2 h-2 bg-green-500 rounded-full animate-pulse shadow-glow"></div>
-            </div>
-            <div className="min-w-0 flex-1">
-              <h1 className="text-base sm:text-lg md:text-xl font-bold bg-gradient-text bg-clip-text text-transparent truncate flex items-center gap-1">
-                PandaNexus
-                <Zap className="w-3 h-3 sm:w-4 sm:h-4 md:w-5 md:h-5 text-primary animate-pulse" />
-              </h1>
-              <p className="text-xs text-muted-foreground hidden sm:block">World's Fastest AI • Quantum Speed</p>
-            </div>
-          </div>
+    <SidebarProvider>
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={activeConversation.id}
+        streamingIds={Object.keys(streams)}
+        onSelect={selectConversation}
+        onNew={() => newConversation()}
+        onRename={renameConversation}
+        onTogglePin={togglePinConversation}
+        onDelete={(id) => {
+          streams[id]?.handle?.cancel();
+          deleteConversation(id);
+        }}
+      />
+      <SidebarInset className="min-w-0">
+        <div className="flex flex-col h-screen bg-background overflow-hidden">
+          {/* ULTRA-RESPONSIVE HEADER */}
+          <Card className="border-0 border-b border-glass-border bg-gradient-glass backdrop-blur-xl shrink-0 shadow-glow">
+            <div className="flex items-center justify-between p-2 sm:p-3 md:p-4">
+              {/* Logo and Title */}
+              <div className="flex items-center gap-2 md:gap-3 min-w-0 flex-1">
+                <SidebarTrigger className="shrink-0" />
+                <div className="relative">
+                  <PandaLogo className="w-7 h-7 sm:w-8 sm:h-8 md:w-10 md:h-10 shrink-0" animate />
+                  <StatusDot className="absolute -top-0.5 -right-0.5 w-2 h-2" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h1 className="text-base sm:text-lg md:text-xl font-bold bg-gradient-text bg-clip-text text-transparent truncate flex items-center gap-1">
+                    PandaNexus
+                    <Zap className="w-3 h-3 sm:w-4 sm:h-4 md:w-5 md:h-5 text-primary animate-pulse" />
+                  </h1>
+                  <p className="text-xs text-muted-foreground hidden sm:block truncate">{activeConversation.title} • Quantum Speed</p>
+                </div>
+              </div>
 
-          {/* Performance Indicators */}
-          <div className="hidden lg:flex items-center gap-2 mr-4">
-            <Badge variant="outline" className="bg-gradient-glass border-glass-border text-xs animate-pulse">
-              <Brain className="w-3 h-3 mr-1 text-green-500" />
-              Quantum
-            </Badge>
-            <Badge variant="outline" className="bg-gradient-glass border-glass-border text-xs">
-              <Cpu className="w-3 h-3 mr-1 text-blue-500" />
-              {isLoading ? 'Streaming' : 'Ready'}
-            </Badge>
-          </div>
+              {/* Performance Indicators */}
+              <div className="hidden lg:flex items-center gap-2 mr-4">
+                <ConnectionStatus queued={queuedCount} />
+                <Badge variant="outline" className="bg-gradient-glass border-glass-border text-xs">
+                  <Cpu className="w-3 h-3 mr-1 text-blue-500" />
+                  {requests.length > 1 ? `${requests.length} streaming` : requests.length > 0 || isLoading ? 'Streaming' : 'Ready'}
+                </Badge>
+              </div>
 
-          {/* Desktop Actions */}
-          <div className="hidden md:flex items-center gap-1 lg:gap-2 shrink-0">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowCodeInterface(true)}
-              className="bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-300 text-xs h-8 px-2 lg:px-3"
-            >
-              <Code className="w-3 h-3 lg:w-4 lg:h-4 lg:mr-1" />
-              <span className="hidden lg:inline">Code Studio</span>
-            </Button>
+              {/* Desktop Actions */}
+              <div className="hidden md:flex items-center gap-1 lg:gap-2 shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowCodeInterface(true)}
+                  className="bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-300 text-xs h-8 px-2 lg:px-3"
+                >
+                  <Code className="w-3 h-3 lg:w-4 lg:h-4 lg:mr-1" />
+                  <span className="hidden lg:inline">Code Studio</span>
+                </Button>
             
-            <VercelDeploy>
-              <Button
-                variant="outline"
-                size="sm"
-                className="bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-300 text-xs h-8 px-2 lg:px-3"
-              >
-                <Rocket className="w-3 h-3 lg:w-4 lg:h-4 lg:mr-1" />
-                <span className="hidden lg:inline">Deploy</span>
-              </Button>
-            </VercelDeploy>
+                <DeployDialog>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-300 text-xs h-8 px-2 lg:px-3"
+                  >
+                    <Rocket className="w-3 h-3 lg:w-4 lg:h-4 lg:mr-1" />
+                    <span className="hidden lg:inline">Deploy</span>
+                  </Button>
+                </DeployDialog>
             
-            <ContactDialog>
-              <Button
-                variant="outline"
-                size="sm"
-                className="bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-300 text-xs h-8 px-2 lg:px-3"
-              >
-                <MessageCircle className="w-3 h-3 lg:w-4 lg:h-4 lg:mr-1" />
-                <span className="hidden lg:inline">Contact</span>
-              </Button>
-            </ContactDialog>
+                <ContactDialog>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-300 text-xs h-8 px-2 lg:px-3"
+                  >
+                    <MessageCircle className="w-3 h-3 lg:w-4 lg:h-4 lg:mr-1" />
+                    <span className="hidden lg:inline">Contact</span>
+                  </Button>
+                </ContactDialog>
+
+                <SettingsDialog>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-300 text-xs h-8 px-2 lg:px-3"
+                  >
+                    <Settings className="w-3 h-3 lg:w-4 lg:h-4 lg:mr-1" />
+                    <span className="hidden lg:inline">Settings</span>
+                  </Button>
+                </SettingsDialog>
             
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={clearChat}
-              className="bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-300 text-xs h-8 px-2 lg:px-3"
-            >
-              <Trash2 className="w-3 h-3 lg:w-4 lg:h-4 lg:mr-1" />
-              <span className="hidden lg:inline">Clear</span>
-            </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={clearChat}
+                  className="bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-300 text-xs h-8 px-2 lg:px-3"
+                >
+                  <Trash2 className="w-3 h-3 lg:w-4 lg:h-4 lg:mr-1" />
+                  <span className="hidden lg:inline">Clear</span>
+                </Button>
             
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={toggleTheme}
-              className="h-8 w-8 px-0"
-            >
-              {theme === 'dark' ? "☀️" : "🌙"}
-            </Button>
-          </div>
-
-          {/* Mobile Actions */}
-          <div className="flex md:hidden items-center gap-1">
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={toggleTheme}
-              className="h-8 w-8 px-0"
-            >
-              {theme === 'dark' ? "☀️" : "🌙"}
-            </Button>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setShowMobileMenu(!showMobileMenu)}
-              className="h-8 w-8 px-0"
-            >
-              {showMobileMenu ? <X className="w-4 h-4" /> : <Menu className="w-4 h-4" />}
-            </Button>
-          </div>
-        </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={toggleTheme}
+                  className="h-8 w-8 px-0"
+                >
+                  {theme === 'dark' ? "☀️" : "🌙"}
+                </Button>
+              </div>
 
-        {/* Enhanced Mobile Menu */}
-        {showMobileMenu && (
-          <div className="md:hidden border-t border-glass-border p-3 space-y-2 bg-gradient-glass backdrop-blur-xl">
-            <div className="grid grid-cols-2 gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => {
-                  setShowCodeInterface(true);
-                  setShowMobileMenu(false);
-                }}
-                className="justify-start bg-gradient-glass border-glass-border text-sm hover:shadow-glow h-10"
-              >
-                <Code className="w-4 h-4 mr-2" />
-                Code Studio
-              </Button>
-              
-              <VercelDeploy>
+              {/* Mobile Actions */}
+              <div className="flex md:hidden items-center gap-1">
                 <Button
-                  variant="outline"
+                  variant="ghost"
                   size="sm"
-                  className="justify-start bg-gradient-glass border-glass-border text-sm hover:shadow-glow h-10"
-                  onClick={() => setShowMobileMenu(false)}
+                  onClick={toggleTheme}
+                  className="h-8 w-8 px-0"
                 >
-                  <Rocket className="w-4 h-4 mr-2" />
-                  Deploy
+                  {theme === 'dark' ? "☀️" : "🌙"}
                 </Button>
-              </VercelDeploy>
-              
-              <ContactDialog>
                 <Button
-                  variant="outline"
+                  variant="ghost"
                   size="sm"
-                  className="justify-start bg-gradient-glass border-glass-border text-sm hover:shadow-glow h-10"
-                  onClick={() => setShowMobileMenu(false)}
+                  onClick={() => setShowMobileMenu(!showMobileMenu)}
+                  className="h-8 w-8 px-0"
                 >
-                  <MessageCircle className="w-4 h-4 mr-2" />
-                  Contact
+                  {showMobileMenu ? <X className="w-4 h-4" /> : <Menu className="w-4 h-4" />}
                 </Button>
-              </ContactDialog>
-
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => {
-                  clearChat();
-                  setShowMobileMenu(false);
-                }}
-                className="justify-start bg-gradient-glass border-glass-border text-sm hover:shadow-glow h-10"
-              >
-                <Trash2 className="w-4 h-4 mr-2" />
-                Clear Chat
-              </Button>
+              </div>
             </div>
-          </div>
-        )}
+
+            {/* Enhanced Mobile Menu */}
+            {showMobileMenu && (
+              <div className="md:hidden border-t border-glass-border p-3 space-y-2 bg-gradient-glass backdrop-blur-xl">
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setShowCodeInterface(true);
+                      setShowMobileMenu(false);
+                    }}
+                    className="justify-start bg-gradient-glass border-glass-border text-sm hover:shadow-glow h-10"
+                  >
+                    <Code className="w-4 h-4 mr-2" />
+                    Code Studio
+                  </Button>
+              
+                  <DeployDialog>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="justify-start bg-gradient-glass border-glass-border text-sm hover:shadow-glow h-10"
+                      onClick={() => setShowMobileMenu(false)}
+                    >
+                      <Rocket className="w-4 h-4 mr-2" />
+                      Deploy
+                    </Button>
+                  </DeployDialog>
+              
+                  <ContactDialog>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="justify-start bg-gradient-glass border-glass-border text-sm hover:shadow-glow h-10"
+                      onClick={() => setShowMobileMenu(false)}
+                    >
+                      <MessageCircle className="w-4 h-4 mr-2" />
+                      Contact
+                    </Button>
+                  </ContactDialog>
+
+                  <SettingsDialog>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="justify-start bg-gradient-glass border-glass-border text-sm hover:shadow-glow h-10"
+                    >
+                      <Settings className="w-4 h-4 mr-2" />
+                      Settings
+                    </Button>
+                  </SettingsDialog>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      clearChat();
+                      setShowMobileMenu(false);
+                    }}
+                    className="justify-start bg-gradient-glass border-glass-border text-sm hover:shadow-glow h-10"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Clear Chat
+                  </Button>
+                </div>
+              </div>
+            )}
         
-        {/* Service Selector */}
-        <div className="px-2 sm:px-3 md:px-4 pb-2 sm:pb-3">
-          <ServiceSelector
-            selectedService={selectedService}
-            onServiceChange={setSelectedService}
-            className="w-full"
-          />
-        </div>
-      </Card>
-
-      {/* ULTRA-FAST MESSAGES AREA */}
-      <div className="flex-1 overflow-y-auto p-2 md:p-4 space-y-2 md:space-y-3 min-h-0">
-        {messages.map((message) => (
-          <div key={message.id} className="relative group">
-            {message.isStreaming ? (
-              <StreamingMessage 
-                message={message}
-                isActive={streamingMessageId === message.id}
+            {/* Service Selector */}
+            <div className="px-2 sm:px-3 md:px-4 pb-2 sm:pb-3">
+              <ServiceSelector
+                selectedService={selectedService}
+                onServiceChange={setSelectedService}
+                className="w-full"
               />
-            ) : (
-              <ChatMessage message={message} />
-            )}
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => copyMessage(message.content)}
-              className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-all duration-200 h-6 w-6 p-0 bg-gradient-glass border border-glass-border hover:shadow-glow rounded-full"
-            >
-              <Copy className="w-3 h-3" />
-            </Button>
-          </div>
-        ))}
-        <div ref={messagesEndRef} />
-      </div>
-
-      {/* REVOLUTIONARY INPUT SYSTEM */}
-      <Card className="border-0 border-t border-glass-border bg-gradient-glass backdrop-blur-xl m-2 md:m-4 md:mt-0 shrink-0 shadow-glow">
-        <form onSubmit={handleSubmit} className="p-2 sm:p-3 md:p-4 space-y-2 sm:space-y-3">
-          {/* LIGHTNING QUICK ACTIONS */}
-          <div className="flex gap-1 md:gap-2 overflow-x-auto pb-1 scrollbar-hide">
-            {[
-              { text: "Build React app", icon: Code, color: "text-blue-500", mobile: "React" },
-              { text: "Generate AI image", icon: Image, color: "text-purple-500", mobile: "Image" },
-              { text: "Debug my code", icon: Zap, color: "text-yellow-500", mobile: "Debug" },
-              { text: "Deploy to Vercel", icon: Rocket, color: "text-green-500", mobile: "Deploy" },
-              { text: "Optimize code", icon: Brain, color: "text-pink-500", mobile: "Optimize" },
-              { text: "Create API", icon: Cpu, color: "text-cyan-500", mobile: "API" }
-            ].map(action => (
-              <Button
-                key={action.text}
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={() => handleQuickAction(action.text)}
-                className="text-xs whitespace-nowrap bg-gradient-glass border-glass-border hover:shadow-glow shrink-0 h-7 sm:h-8 px-2 sm:px-3 transition-all duration-200"
-              >
-                <action.icon className={`w-3 h-3 mr-1 ${action.color}`} />
-                <span className="hidden sm:inline">{action.text}</span>
-                <span className="sm:hidden">{action.mobile}</span>
-              </Button>
+            </div>
+          </Card>
+
+          {/* ULTRA-FAST MESSAGES AREA */}
+          <div className="flex-1 overflow-y-auto p-2 md:p-4 space-y-2 md:space-y-3 min-h-0">
+            {messages.map((message, index) => (
+              <Fragment key={message.id}>
+                <div className="relative group">
+                  {message.isStreaming ? (
+                    <StreamingMessage 
+                      message={message}
+                      isActive={streamingMessageId === message.id}
+                    />
+                  ) : (
+                    <ChatMessage
+                      message={message}
+                      onCorrectRoute={(service) => correctRoute(message.id, service)}
+                      onTogglePin={() => togglePin(message.id)}
+                      onEdit={message.role === 'user' && !isLoading ? (content) => editAndResend(message.id, content) : undefined}
+                      onRegenerate={message.role === 'assistant' && messages[index - 1]?.role === 'user' && !isLoading ? () => regenerate(message.id) : undefined}
+                      versions={isLoading ? undefined : versionsOf(message.id)}
+                    />
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => copyMessage(message.content)}
+                    className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-all duration-200 h-6 w-6 p-0 bg-gradient-glass border border-glass-border hover:shadow-glow rounded-full"
+                  >
+                    <Copy className="w-3 h-3" />
+                  </Button>
+                </div>
+                {summary?.throughId === message.id && (
+                  <SummaryCard summary={summary} onClear={() => setConversationSummary(activeConversation.id, undefined)} />
+                )}
+              </Fragment>
             ))}
+            <div ref={messagesEndRef} />
           </div>
 
-          {/* ULTRA-RESPONSIVE INPUT ROW */}
-          <div className="flex items-end gap-2">
-            {/* Upload Button */}
-            <input
-              ref={fileInputRef}
-              type="file"
-              className="hidden"
-              accept="image/*,.txt,.md,.js,.ts,.jsx,.tsx,.py,.html,.css,.json,.sql,.php,.java,.cpp,.c,.go,.rs,.swift,.kt"
-              onChange={handleFileUpload}
-            />
-            <Button
-              type="button"
-              variant="outline"
-              size="icon"
-              onClick={() => fileInputRef.current?.click()}
-              className="shrink-0 h-9 sm:h-10 w-9 sm:w-10 bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-200"
-              title="Upload file or image"
-            >
-              <Plus className="w-3 h-3 sm:w-4 sm:h-4" />
-            </Button>
-
-            {/* INPUT FIELD */}
-            <div className="flex-1 min-w-0">
-              <Input
-                ref={inputRef}
-                value={inputValue}
-                onChange={e => setInputValue(e.target.value)}
-                placeholder="Ask PandaNexus anything... ⚡ World's fastest AI!"
-                className="bg-input/50 border-glass-border backdrop-blur-sm focus:ring-2 focus:ring-primary/20 h-9 sm:h-10 text-sm md:text-base transition-all duration-200 font-medium"
-                disabled={isSpellChecking}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && !e.shiftKey) {
-                    e.preventDefault();
-                    handleSubmit(e as any);
-                  }
-                  if (e.key === 'Escape') {
-                    if (isLoading) {
-                      handleStopStreaming();
-                    } else {
-                      setInputValue('');
-                    }
-                  }
-                }}
-              />
-            </div>
+          {/* REVOLUTIONARY INPUT SYSTEM */}
+          <Card className="border-0 border-t border-glass-border bg-gradient-glass backdrop-blur-xl m-2 md:m-4 md:mt-0 shrink-0 shadow-glow">
+            <form onSubmit={handleSubmit} className="p-2 sm:p-3 md:p-4 space-y-2 sm:space-y-3">
+              {/* LIGHTNING QUICK ACTIONS */}
+              <div className="flex gap-1 md:gap-2 overflow-x-auto pb-1 scrollbar-hide">
+                {[
+                  { text: "Build React app", icon: Code, color: "text-blue-500", mobile: "React" },
+                  { text: "Generate AI image", icon: Image, color: "text-purple-500", mobile: "Image" },
+                  { text: "Debug my code", icon: Zap, color: "text-yellow-500", mobile: "Debug" },
+                  { text: "Deploy to Vercel", icon: Rocket, color: "text-green-500", mobile: "Deploy" },
+                  { text: "Optimize code", icon: Brain, color: "text-pink-500", mobile: "Optimize" },
+                  { text: "Create API", icon: Cpu, color: "text-cyan-500", mobile: "API" }
+                ].map(action => (
+                  <Button
+                    key={action.text}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleQuickAction(action.text)}
+                    className="text-xs whitespace-nowrap bg-gradient-glass border-glass-border hover:shadow-glow shrink-0 h-7 sm:h-8 px-2 sm:px-3 transition-all duration-200"
+                  >
+                    <action.icon className={`w-3 h-3 mr-1 ${action.color}`} />
+                    <span className="hidden sm:inline">{action.text}</span>
+                    <span className="sm:hidden">{action.mobile}</span>
+                  </Button>
+                ))}
+              </div>
 
-            {/* AI SPELL CHECK */}
-            <Button
-              type="button"
-              onClick={handleSpellCheck}
-              variant="outline"
-              size="icon"
-              disabled={!inputValue.trim() || isSpellChecking}
-              className="shrink-0 h-9 sm:h-10 w-9 sm:w-10 bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-200"
-              title="AI Spell Check & Optimization"
-            >
-              {isSpellChecking ? (
-                <div className="w-3 h-3 sm:w-4 sm:h-4 border-2 border-primary/20 border-t-primary rounded-full animate-spin"></div>
-              ) : (
-                <Wand2 className="w-3 h-3 sm:w-4 sm:h-4" />
-              )}
-            </Button>
-
-            {/* SEND/STOP BUTTON */}
-            <Button
-              type="submit"
-              disabled={isSpellChecking}
-              className={`transition-all duration-300 shrink-0 h-9 sm:h-10 w-9 sm:w-10 relative overflow-hidden ${
-                isLoading 
-                  ? 'bg-red-500 hover:bg-red-600' 
-                  : 'bg-gradient-primary hover:shadow-glow'
-              }`}
-              title={isLoading ? "Stop streaming" : "Send message"}
-            >
-              {isLoading ? (
-                <Square className="w-3 h-3 sm:w-4 sm:h-4" />
-              ) : (
-                <>
-                  <Send className="w-3 h-3 sm:w-4 sm:h-4 relative z-10" />
-                  <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent -translate-x-full animate-shimmer"></div>
-                </>
-              )}
-            </Button>
-          </div>
+              {/* ULTRA-RESPONSIVE INPUT ROW */}
+              <div className="flex items-end gap-2">
+                {/* Upload Button */}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  className="hidden"
+                  accept="image/*,.txt,.md,.js,.ts,.jsx,.tsx,.py,.html,.css,.json,.sql,.php,.java,.cpp,.c,.go,.rs,.swift,.kt"
+                  onChange={handleFileUpload}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="shrink-0 h-9 sm:h-10 w-9 sm:w-10 bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-200"
+                  title="Upload file or image"
+                >
+                  <Plus className="w-3 h-3 sm:w-4 sm:h-4" />
+                </Button>
+
+                {/* INPUT FIELD */}
+                <div className="flex-1 min-w-0">
+                  <Input
+                    ref={inputRef}
+                    value={inputValue}
+                    onChange={e => setInputValue(e.target.value)}
+                    placeholder="Ask PandaNexus anything... ⚡ World's fastest AI!"
+                    className="bg-input/50 border-glass-border backdrop-blur-sm focus:ring-2 focus:ring-primary/20 h-9 sm:h-10 text-sm md:text-base transition-all duration-200 font-medium"
+                    disabled={isSpellChecking}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        handleSubmit(e as any);
+                      }
+                      if (e.key === 'Escape') {
+                        if (isLoading) {
+                          handleStopStreaming();
+                        } else {
+                          setInputValue('');
+                        }
+                      }
+                    }}
+                  />
+                </div>
+
+                {/* AI SPELL CHECK */}
+                <Button
+                  type="button"
+                  onClick={handleSpellCheck}
+                  variant="outline"
+                  size="icon"
+                  disabled={!inputValue.trim() || isSpellChecking}
+                  className="shrink-0 h-9 sm:h-10 w-9 sm:w-10 bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-200"
+                  title="AI Spell Check & Optimization"
+                >
+                  {isSpellChecking ? (
+                    <div className="w-3 h-3 sm:w-4 sm:h-4 border-2 border-primary/20 border-t-primary rounded-full animate-spin"></div>
+                  ) : (
+                    <Wand2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                  )}
+                </Button>
+
+                {/* SEND/STOP BUTTON */}
+                <Button
+                  type="submit"
+                  disabled={isSpellChecking}
+                  className={`transition-all duration-300 shrink-0 h-9 sm:h-10 w-9 sm:w-10 relative overflow-hidden ${
+                    isLoading 
+                      ? 'bg-red-500 hover:bg-red-600' 
+                      : 'bg-gradient-primary hover:shadow-glow'
+                  }`}
+                  title={isLoading ? "Stop streaming" : "Send message"}
+                >
+                  {isLoading ? (
+                    <Square className="w-3 h-3 sm:w-4 sm:h-4" />
+                  ) : (
+                    <>
+                      <Send className="w-3 h-3 sm:w-4 sm:h-4 relative z-10" />
+                      <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent -translate-x-full animate-shimmer"></div>
+                    </>
+                  )}
+                </Button>
+              </div>
           
-          {/* ENHANCED HELPER TEXT */}
-          <div className="flex items-center justify-between text-xs text-muted-foreground">
-            <div className="flex items-center gap-2 flex-wrap">
-              <span className="flex items-center gap-1">
-                ⚡ <span className="hidden xs:inline">Lightning AI</span><span className="xs:hidden">Fast</span>
-              </span>
-              <span className="hidden sm:inline flex items-center gap-1">
-                • 🔥 <span className="hidden md:inline">Real-time streaming</span><span className="md:hidden">Live</span>
-              </span>
-              <span className="hidden md:inline">• 🚀 Instant deploy</span>
-            </div>
-            <div className="flex items-center gap-1">
-              <kbd className="px-1.5 py-0.5 bg-muted/20 rounded text-xs border border-glass-border">Enter</kbd>
-              <span className="hidden sm:inline">send</span>
-              <span className="text-xs ml-2">ESC stop</span>
-            </div>
-          </div>
-        </form>
-      </Card>
-    </div>
+              {/* ENHANCED HELPER TEXT */}
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <ModelPicker service={selectedService} value={modelOverride} onChange={setModelOverride} />
+                  <PersonaPicker
+                    service={selectedService}
+                    value={activeConversation.personaId}
+                    onChange={(personaId) => setConversationPersona(activeConversation.id, personaId)}
+                  />
+                  <GenerationSettings
+                    service={selectedService}
+                    params={activeConversation.params}
+                    onChange={(params) => setConversationParams(activeConversation.id, params)}
+                  />
+                  <ContextMeter context={draftContext}>
+                    <div className="flex items-center justify-between gap-2 pt-2 border-t border-glass-border">
+                      <Label htmlFor="rolling-summary" className="text-xs">Summarize older messages</Label>
+                      <Switch
+                        id="rolling-summary"
+                        checked={activeConversation.summarize !== false}
+                        onCheckedChange={(checked) => setConversationSummarize(activeConversation.id, checked)}
+                      />
+                    </div>
+                    <p className="text-muted-foreground">When the window fills up, older turns are condensed into a summary that is sent in their place.</p>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={summarizingId === activeConversation.id || isLoading}
+                      onClick={() => summarize(activeConversation.id, messages, selectedService, requestOptions(selectedService), true)}
+                      className="h-7 w-full text-xs bg-gradient-glass border-glass-border"
+                    >
+                      {summarizingId === activeConversation.id ? 'Summarizing…' : 'Summarize now'}
+                    </Button>
+                  </ContextMeter>
+                  <span className="flex items-center gap-1">
+                    ⚡ <span className="hidden xs:inline">Lightning AI</span><span className="xs:hidden">Fast</span>
+                  </span>
+                  <span className="hidden sm:inline flex items-center gap-1">
+                    • 🔥 <span className="hidden md:inline">Real-time streaming</span><span className="md:hidden">Live</span>
+                  </span>
+                  <span className="hidden md:inline">• 🚀 Instant deploy</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <kbd className="px-1.5 py-0.5 bg-muted/20 rounded text-xs border border-glass-border">Enter</kbd>
+                  <span className="hidden sm:inline">send</span>
+                  <span className="text-xs ml-2">ESC stop</span>
+                </div>
+              </div>
+            </form>
+          </Card>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
@@ -1,9 +1,14 @@
 import { useState, useEffect } from "react";
 import PandaLogo from "./PandaLogo";
+import MarkdownContent from "./MarkdownContent";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Zap, Brain, Cpu, Sparkles, Copy, ExternalLink } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Textarea } from "@/components/ui/textarea";
+import { Zap, Brain, Cpu, Sparkles, Copy, ExternalLink, Compass, Check, Pin, Pencil, RefreshCw, ChevronLeft, ChevronRight, Undo2, WifiOff } from "lucide-react";
 import { toast } from "@/components/ui/sonner";
+import { SERVICE_LABELS, modelLabel } from "@/services/models";
+import type { RouteDecision, RoutedService } from "@/types/chat";
 
 interface ChatMessageProps {
   message: {
@@ -12,17 +17,70 @@ interface ChatMessageProps {
     role: 'user' | 'assistant';
     timestamp: Date;
     model?: string;
+    fallbackFrom?: string;
     image?: string;
     imageUrl?: string;
     isStreaming?: boolean;
+    route?: RouteDecision;
+    pinned?: boolean;
+    queued?: boolean;
   };
+  // Lets the user say which service Auto should have picked
+  onCorrectRoute?: (service: RoutedService) => void;
+  // Pinned messages are always sent as context
+  onTogglePin?: () => void;
+  // Send an edited copy of a prompt as a new version
+  onEdit?: (content: string) => void;
+  onRegenerate?: () => void;
+  // Position among the message's versions, with a step of -1 or 1 to switch
+  versions?: { index: number; count: number; onStep: (step: number) => void };
 }
 
-const ChatMessage = ({ message }: ChatMessageProps) => {
+const ROUTED_SERVICES: RoutedService[] = ['code', 'creative', 'knowledge', 'general'];
+
+// How Auto routed this reply, with a menu to correct it
+const RouteBadge = ({ route, onCorrect }: { route: RouteDecision; onCorrect?: (service: RoutedService) => void }) => {
+  const shown = route.correction ?? route.service;
+  const badge = (
+    <Badge
+      variant="outline"
+      className={`bg-gradient-glass border-glass-border text-xs gap-1 ${onCorrect ? 'cursor-pointer hover:border-primary/50' : ''} ${route.correction ? 'text-primary' : ''}`}
+      title={route.correction
+        ? `Auto picked ${SERVICE_LABELS[route.service]}; corrected to ${SERVICE_LABELS[route.correction]}`
+        : `Auto routed: ${route.reasons.join(', ')}`}
+    >
+      <Compass className="w-3 h-3" />
+      {SERVICE_LABELS[shown]}
+      {!route.correction && <span className="text-muted-foreground">{Math.round(route.confidence * 100)}%</span>}
+    </Badge>
+  );
+  if (!onCorrect) return badge;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button type="button">{badge}</button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="bg-gradient-glass backdrop-blur-xl border-glass-border">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Should have been</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {ROUTED_SERVICES.map(service => (
+          <DropdownMenuItem key={service} onClick={() => onCorrect(service)} className="text-xs">
+            <Check className={`w-3 h-3 mr-2 ${service === shown ? 'opacity-100' : 'opacity-0'}`} />
+            {SERVICE_LABELS[service]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+const ChatMessage = ({ message, onCorrectRoute, onTogglePin, onEdit, onRegenerate, versions }: ChatMessageProps) => {
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
+  // Draft while editing a prompt
+  const [draft, setDraft] = useState<string | null>(null);
 
-  const isCodeBlock = message.content.includes('```');
   const isUser = message.role === 'user';
 
   const copyMessage = async () => {
@@ -138,45 +196,44 @@ const ChatMessage = ({ message }: ChatMessageProps) => {
             </div>
           )}
           
-          {isCodeBlock ? (
-            <pre className={`
-              font-mono text-xs sm:text-sm overflow-x-auto p-2 sm:p-3 rounded-lg border max-h-64 sm:max-h-80 relative
-              ${isUser ? 'bg-black/20 border-white/20' : 'bg-muted/10 border-border'}
-            `}>
-              <code className="relative">
-                {message.content}
-              </code>
-            </pre>
-          ) : (
-            <div className="prose prose-invert max-w-none">
-              <div className="whitespace-pre-wrap leading-relaxed text-sm md:text-base">
-                {message.content
-                  .split('\n').map((line, index) => {
-                    if (!line.trim()) return <br key={index} />;
-                    
-                    // Enhanced markdown formatting
-                    if (line.trim().startsWith('**') && line.trim().endsWith('**')) {
-                      return (
-                        <div key={index} className="font-bold text-primary mb-2 text-base md:text-lg flex items-center gap-2">
-                          <Sparkles className="w-4 h-4" />
-                          {line.replace(/\*\*/g, '')}
-                        </div>
-                      );
+          {draft !== null ? (
+            <div className="space-y-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    if (draft.trim()) {
+                      onEdit?.(draft);
+                      setDraft(null);
                     }
-                    
-                    if (line.trim().startsWith('•') || line.trim().startsWith('-')) {
-                      return (
-                        <div key={index} className="flex items-start gap-2 ml-2 mb-1">
-                          <span className="text-primary mt-1 text-xs font-bold animate-pulse">●</span>
-                          <span className="flex-1 break-words">{line.replace(/^[•\-]\s*/, '')}</span>
-                        </div>
-                      );
-                    }
-                    
-                    return <div key={index} className="mb-1 break-words">{line}</div>;
-                  })}
+                  }
+                  if (e.key === 'Escape') setDraft(null);
+                }}
+                autoFocus
+                className="min-h-[80px] bg-background/80 text-foreground border-glass-border text-sm"
+              />
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="ghost" onClick={() => setDraft(null)} className="h-7 text-xs text-primary-foreground hover:text-primary-foreground hover:bg-white/10">
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={!draft.trim()}
+                  onClick={() => {
+                    onEdit?.(draft);
+                    setDraft(null);
+                  }}
+                  className="h-7 text-xs"
+                >
+                  Send
+                </Button>
               </div>
             </div>
+          ) : (
+            <MarkdownContent content={message.content} isUser={isUser} />
           )}
           
           <div className="flex items-center justify-between mt-2 sm:mt-3 pt-2 sm:pt-3 border-t border-glass-border opacity-70">
@@ -189,8 +246,73 @@ const ChatMessage = ({ message }: ChatMessageProps) => {
                   {message.content.length} chars
                 </Badge>
               )}
+              {message.queued && (
+                <Badge variant="outline" className="bg-gradient-glass border-glass-border text-xs gap-1" title="Sent once the connection is back">
+                  <WifiOff className="w-3 h-3" />
+                  Waiting for connection
+                </Badge>
+              )}
+              {message.route && <RouteBadge route={message.route} onCorrect={onCorrectRoute} />}
+              {versions && versions.count > 1 && (
+                <span className="flex items-center text-xs">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={versions.index === 0}
+                    onClick={() => versions.onStep(-1)}
+                    className="h-5 w-5 p-0"
+                    title="Previous version"
+                  >
+                    <ChevronLeft className="w-3 h-3" />
+                  </Button>
+                  <span className="font-mono">{versions.index + 1}/{versions.count}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={versions.index === versions.count - 1}
+                    onClick={() => versions.onStep(1)}
+                    className="h-5 w-5 p-0"
+                    title="Next version"
+                  >
+                    <ChevronRight className="w-3 h-3" />
+                  </Button>
+                </span>
+              )}
             </div>
             <div className="flex items-center gap-2">
+              {onTogglePin && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onTogglePin}
+                  className={`h-6 w-6 p-0 transition-opacity ${message.pinned ? 'text-primary opacity-100' : 'opacity-70 hover:opacity-100'}`}
+                  title={message.pinned ? 'Unpin from context' : 'Pin to context'}
+                >
+                  <Pin className={`w-3 h-3 ${message.pinned ? 'fill-current' : ''}`} />
+                </Button>
+              )}
+              {onEdit && draft === null && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraft(message.content)}
+                  className="h-6 w-6 p-0 opacity-70 hover:opacity-100 transition-opacity"
+                  title="Edit and resend"
+                >
+                  <Pencil className="w-3 h-3" />
+                </Button>
+              )}
+              {onRegenerate && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onRegenerate}
+                  className="h-6 w-6 p-0 opacity-70 hover:opacity-100 transition-opacity"
+                  title="Regenerate reply"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
@@ -200,10 +322,14 @@ const ChatMessage = ({ message }: ChatMessageProps) => {
                 <Copy className="w-3 h-3" />
               </Button>
               {message.model && (
-                <span className="text-xs text-muted-foreground truncate ml-2 flex items-center gap-1">
+                <span
+                  className="text-xs text-muted-foreground truncate ml-2 flex items-center gap-1"
+                  title={message.fallbackFrom ? `Answered by ${modelLabel(message.model)} because ${modelLabel(message.fallbackFrom)} failed` : undefined}
+                >
                   <Brain className="w-3 h-3" />
-                  <span className="hidden sm:inline">{message.model}</span>
-                  <span className="sm:hidden">{message.model.split(' ')[0]}</span>
+                  {message.fallbackFrom && <Undo2 className="w-3 h-3 text-yellow-500" />}
+                  <span className="hidden sm:inline">{modelLabel(message.model)}</span>
+                  <span className="sm:hidden">{modelLabel(message.model).split(' ')[0]}</span>
                 </span>
               )}
             </div>
@@ -0,0 +1,115 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Check, ChevronDown, ChevronUp, Copy, Download, FileCode, WrapText } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import { cn } from "@/lib/utils";
+import { highlightLines } from "@/lib/highlight";
+import { extensionFor, findLanguage } from "@/lib/languages";
+import { downloadText } from "@/lib/download";
+
+interface CodeBlockProps {
+  code: string;
+  language?: string;
+  filename?: string;
+  isUser?: boolean;
+  // Extra header buttons, e.g. "save to project"
+  actions?: React.ReactNode;
+  // Blocks longer than this start collapsed
+  collapseAfter?: number;
+  className?: string;
+}
+
+const CodeBlock = ({ code, language, filename, isUser = false, actions, collapseAfter = 25, className }: CodeBlockProps) => {
+  const [wrap, setWrap] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const { lines, language: detected } = useMemo(() => highlightLines(code, language), [code, language]);
+  const isLong = lines.length > collapseAfter;
+  const visibleLines = isLong && !expanded ? lines.slice(0, collapseAfter) : lines;
+  const label = filename || findLanguage(language)?.label || language || detected || 'text';
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+      toast.success("📋 Code copied!", {
+        description: "Ready to paste in your editor",
+        duration: 1500
+      });
+    } catch {
+      toast.error("Copy failed");
+    }
+  };
+
+  const downloadCode = () => {
+    const name = filename?.split('/').pop() || `snippet.${extensionFor(language || detected)}`;
+    downloadText(code, name);
+    toast.success(`💾 Saved as ${name}`, { duration: 1500 });
+  };
+
+  const actionClass = "h-6 w-6 p-0 bg-gradient-glass border-glass-border hover:shadow-glow";
+
+  return (
+    <div className={cn(
+      "my-2 rounded-lg border overflow-hidden not-prose",
+      isUser ? "bg-black/20 border-white/20" : "bg-muted/10 border-border",
+      className
+    )}>
+      <div className="flex items-center justify-between gap-2 px-2 sm:px-3 py-1.5 border-b border-glass-border bg-muted/20">
+        <div className="flex items-center gap-2 min-w-0">
+          <FileCode className="w-3 h-3 sm:w-4 sm:h-4 text-primary shrink-0" />
+          <span className="text-xs font-medium truncate">{label}</span>
+          <Badge variant="secondary" className="text-xs shrink-0 hidden sm:inline-flex">
+            {lines.length} lines
+          </Badge>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          {actions}
+          <Button size="sm" variant="outline" onClick={() => setWrap(!wrap)} className={cn(actionClass, wrap && "text-primary")} title="Toggle line wrap">
+            <WrapText className="w-3 h-3" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={downloadCode} className={actionClass} title="Download">
+            <Download className="w-3 h-3" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={copyCode} className={actionClass} title="Copy">
+            {copied ? <Check className="w-3 h-3 text-green-500" /> : <Copy className="w-3 h-3" />}
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto text-xs sm:text-sm font-mono py-2">
+        <table className="border-collapse w-full">
+          <tbody>
+            {visibleLines.map((line, index) => (
+              <tr key={index}>
+                <td className="select-none text-right align-top pl-2 pr-3 text-muted-foreground/60 w-px whitespace-nowrap">
+                  {index + 1}
+                </td>
+                <td
+                  className={cn("hljs pr-3 align-top", wrap ? "whitespace-pre-wrap break-all" : "whitespace-pre")}
+                  dangerouslySetInnerHTML={{ __html: line || ' ' }}
+                />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {isLong && (
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="w-full flex items-center justify-center gap-1 py-1 text-xs text-muted-foreground hover:text-primary border-t border-glass-border bg-muted/10"
+        >
+          {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          {expanded ? 'Collapse' : `Show all ${lines.length} lines`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CodeBlock;
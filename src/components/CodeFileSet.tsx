@@ -0,0 +1,125 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Eye, FileCheck, Folder, Play, Save } from "lucide-react";
+import CodeBlock from "./CodeBlock";
+import RunTerminal from "./RunTerminal";
+import PreviewPane from "./PreviewPane";
+import { useCodeRunner } from "@/hooks/use-code-runner";
+import { isRunnable } from "@/lib/sandbox";
+import { isPreviewable } from "@/lib/preview";
+import type { ProjectFile } from "@/types/project";
+
+interface CodeFileSetProps {
+  files: ProjectFile[];
+  // Shown as the save button label; no button when onSave is missing
+  saveLabel?: string;
+  onSave?: () => void;
+  // Writes the reply into the file the request targeted
+  applyLabel?: string;
+  onApply?: () => void;
+}
+
+// The files extracted from one assistant reply, saved to a project together
+const CodeFileSet = ({ files, saveLabel = "Save to project", onSave, applyLabel = "Apply", onApply }: CodeFileSetProps) => {
+  const runner = useCodeRunner();
+
+  return (
+    <Card className="mt-2 sm:mt-3 bg-gradient-glass border-glass-border shadow-glass overflow-hidden">
+      <div className="flex items-center justify-between p-2 sm:p-3 border-b border-glass-border bg-muted/20">
+        <div className="flex items-center gap-2 min-w-0">
+          <Folder className="w-3 h-3 sm:w-4 sm:h-4 text-primary shrink-0" />
+          <span className="text-xs sm:text-sm font-medium truncate">
+            {files.length === 1 ? files[0].name : `${files.length} files`}
+          </span>
+          <Badge variant="secondary" className="text-xs shrink-0">
+            {files.reduce((total, file) => total + file.content.split('\n').length, 0)} lines
+          </Badge>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {isPreviewable(files) && (
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-6 sm:h-7 px-2 bg-gradient-glass border-glass-border hover:shadow-glow text-xs"
+                  title="Preview"
+                >
+                  <Eye className="w-3 h-3" />
+                  <span className="hidden sm:inline ml-1">Preview</span>
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-5xl w-[95vw] h-[80vh] flex flex-col bg-background border-glass-border">
+                <DialogHeader>
+                  <DialogTitle className="text-sm">
+                    {files.length === 1 ? files[0].name : `${files.length} files`}
+                  </DialogTitle>
+                </DialogHeader>
+                <PreviewPane files={files} className="flex-1" />
+              </DialogContent>
+            </Dialog>
+          )}
+          {onApply && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onApply}
+              className="h-6 sm:h-7 px-2 bg-gradient-glass border-glass-border hover:shadow-glow text-xs"
+              title={applyLabel}
+            >
+              <FileCheck className="w-3 h-3" />
+              <span className="hidden sm:inline ml-1 max-w-[10rem] truncate">{applyLabel}</span>
+            </Button>
+          )}
+          {onSave && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onSave}
+              className="h-6 sm:h-7 px-2 bg-gradient-primary text-primary-foreground hover:shadow-glow text-xs"
+            >
+              <Save className="w-3 h-3" />
+              <span className="hidden sm:inline ml-1">{saveLabel}</span>
+            </Button>
+          )}
+        </div>
+      </div>
+      <div className="p-2 space-y-2">
+        {files.map(file => (
+          <CodeBlock
+            key={file.name}
+            code={file.content}
+            language={file.language}
+            filename={file.name}
+            collapseAfter={files.length > 1 ? 12 : 25}
+            className="my-0"
+            actions={isRunnable(file.language, file.name) && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => runner.start(file)}
+                disabled={runner.run?.status === 'running' && runner.run.file.name === file.name}
+                className="h-6 w-6 p-0 bg-gradient-glass border-glass-border hover:shadow-glow text-green-500"
+                title="Run in sandbox"
+              >
+                <Play className="w-3 h-3" />
+              </Button>
+            )}
+          />
+        ))}
+      </div>
+      {runner.run && (
+        <RunTerminal
+          run={runner.run}
+          onRerun={() => runner.start(runner.run!.file)}
+          onStop={runner.stop}
+          onClose={runner.clear}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default CodeFileSet;
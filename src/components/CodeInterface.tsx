@@ -5,69 +5,93 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import ChatMessage from "./ChatMessage";
 import StreamingMessage from "./StreamingMessage";
-import VercelDeploy from "./VercelDeploy";
-import { aiService, AIStreamChunk } from "@/services/aiService";
-import { Send, Code, Terminal, FileCode, Zap, Copy, Download, ArrowLeft, Rocket, Plus, Save, Play, Settings, Folder, GitBranch, Package, Sparkles, Brain, Cpu, Wand2, Square, Trash2 } from "lucide-react";
+import DeployDialog from "./DeployDialog";
+import SettingsDialog from "./SettingsDialog";
+import CodeFileSet from "./CodeFileSet";
+import ProjectEditor from "./ProjectEditor";
+import PreviewPane from "./PreviewPane";
+import ContextMeter from "./ContextMeter";
+import ConnectionStatus, { StatusDot } from "./ConnectionStatus";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { aiService, AIMessage, AIRequestHandle, AIRequestOptions, AIStreamChunk } from "@/services/aiService";
+import { personaLibrary } from "@/services/personas";
+import { healthMonitor } from "@/services/health";
+import { Send, Code, Terminal, FileCode, Zap, Copy, Download, ArrowLeft, Rocket, Plus, Save, Play, Settings, Folder, GitBranch, Package, Sparkles, Cpu, Wand2, Square, Trash2, Upload, FolderInput, Eye } from "lucide-react";
 import PandaLogo from "./PandaLogo";
 import { toast } from "@/components/ui/sonner";
 import { cn } from "@/lib/utils";
+import { extensionFor, languages } from "@/lib/languages";
+import { extractCodeFiles } from "@/lib/codeExtraction";
+import { updateFileContent, upsertFiles } from "@/lib/projectFiles";
+import { isPreviewable } from "@/lib/preview";
+import { downloadProjectZip, importProjectFolder, importProjectZip } from "@/lib/projectArchive";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useIsReachable } from "@/hooks/use-health";
+import { storage, CODE_STUDIO_THREAD } from "@/services/storage";
+import type { Project, ProjectFile } from "@/types/project";
 
 interface Message {
   id: string;
   content: string;
   role: 'user' | 'assistant';
   timestamp: Date;
+  // Single-block code from older history; new replies carry `files`
   code?: string;
   language?: string;
+  files?: ProjectFile[];
   isStreaming?: boolean;
   model?: string;
+  // Project file that was open in the editor when the request was sent
+  targetFile?: string;
+  pinned?: boolean;
+  // Sent while offline, waiting for the connection to come back
+  queued?: boolean;
 }
 
-interface Project {
-  id: string;
-  name: string;
-  description: string;
-  language: string;
-  files: Array<{
-    name: string;
-    content: string;
-    language: string;
-  }>;
-  createdAt: Date;
-  deployUrl?: string;
-}
+const messageFiles = (message: Message): ProjectFile[] => {
+  if (message.files) return message.files;
+  if (!message.code) return [];
+  const language = message.language || 'javascript';
+  return [{ name: `main.${extensionFor(language)}`, content: message.code, language }];
+};
+
+// Put `message` right after the message with `id`, ahead of any queued prompts
+const insertAfter = (messages: Message[], id: string, message: Message): Message[] => {
+  const index = messages.findIndex(m => m.id === id);
+  return index === -1 ? [...messages, message] : [...messages.slice(0, index + 1), message, ...messages.slice(index + 1)];
+};
+
+// Send the open file along with the request so the reply can edit it
+const withFileContext = (content: string, file: ProjectFile): string => {
+  const longestRun = Math.max(0, ...(file.content.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${content}\n\nThis request is about the open file \`${file.name}\`. Reply with its complete updated contents in one code block named ${file.name}. Current contents:\n\n${fence}${file.language} ${file.name}\n${file.content}\n${fence}`;
+};
 
 interface CodeInterfaceProps {
   onBack: () => void;
 }
 
 const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
-  const [messages, setMessages] = useState<Message[]>(() => {
-    const savedMessages = localStorage.getItem('pandanexus-code-history');
-    if (savedMessages) {
-      try {
-        const parsed = JSON.parse(savedMessages);
-        return parsed.map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        }));
-      } catch (e) {
-        console.error('Error loading code history:', e);
-      }
+  const [messages, setMessages] = useState<Message[]>(() => [
+    {
+      id: '1',
+      content: "🚀 **Welcome to PandaNexus Code Studio Pro - World's Most Advanced Development Environment!**\n\nI'm your elite AI coding partner, ready to help you build revolutionary projects:\n\n• ⚡ **Lightning Code Generation** - Any language, any framework\n• 🏗️ **Multi-File Projects** - Complete applications with structure\n• 🚀 **Instant Deployment** - Deploy to Vercel in seconds\n• 🐛 **Advanced Debugging** - AI-powered error detection\n• 📦 **Project Management** - Create, save, and manage projects\n• 🧠 **Smart Suggestions** - Context-aware completions\n\nWhat world-changing project shall we build today?",
+      role: 'assistant',
+      timestamp: new Date(),
+      model: 'PandaNexus Code Master'
     }
-    
-    return [
-      {
-        id: '1',
-        content: "🚀 **Welcome to PandaNexus Code Studio Pro - World's Most Advanced Development Environment!**\n\nI'm your elite AI coding partner, ready to help you build revolutionary projects:\n\n• ⚡ **Lightning Code Generation** - Any language, any framework\n• 🏗️ **Multi-File Projects** - Complete applications with structure\n• 🚀 **Instant Deployment** - Deploy to Vercel in seconds\n• 🐛 **Advanced Debugging** - AI-powered error detection\n• 📦 **Project Management** - Create, save, and manage projects\n• 🧠 **Smart Suggestions** - Context-aware completions\n\nWhat world-changing project shall we build today?",
-        role: 'assistant',
-        timestamp: new Date(),
-        model: 'PandaNexus Code Master'
-      }
-    ];
-  });
+  ]);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
   
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -77,112 +101,184 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
   const [projectName, setProjectName] = useState("");
   const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [isSpellChecking, setIsSpellChecking] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [activeFile, setActiveFile] = useState<string | null>(null);
+  const isMobile = useIsMobile();
+  // Prompts sent while the provider is unreachable wait in the thread
+  const isReachable = useIsReachable();
+  const queuedCount = messages.filter(m => m.queued).length;
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // The request streaming the current reply, so Stop cancels it and nothing else
+  const requestRef = useRef<AIRequestHandle | null>(null);
+  // Latest project for edits queued from stale closures, e.g. an undo toast
+  const currentProjectRef = useRef(currentProject);
+  currentProjectRef.current = currentProject;
+  const projectSaveTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  // Load saved history and projects
+  useEffect(() => {
+    let cancelled = false;
+
+    storage.loadThread<Message>(CODE_STUDIO_THREAD)
+      .then(saved => {
+        if (!cancelled && saved.length > 0) setMessages(saved);
+      })
+      .catch(error => console.error('Error loading code history:', error))
+      .finally(() => {
+        if (!cancelled) setHistoryLoaded(true);
+      });
 
-  const languages = [
-    { value: "javascript", label: "JavaScript", icon: "🟨", ext: "js" },
-    { value: "typescript", label: "TypeScript", icon: "🔷", ext: "ts" },
-    { value: "python", label: "Python", icon: "🐍", ext: "py" },
-    { value: "react", label: "React", icon: "⚛️", ext: "jsx" },
-    { value: "nextjs", label: "Next.js", icon: "▲", ext: "tsx" },
-    { value: "nodejs", label: "Node.js", icon: "🟢", ext: "js" },
-    { value: "html", label: "HTML", icon: "🌐", ext: "html" },
-    { value: "css", label: "CSS", icon: "🎨", ext: "css" },
-    { value: "sql", label: "SQL", icon: "🗄️", ext: "sql" },
-    { value: "php", label: "PHP", icon: "🐘", ext: "php" },
-    { value: "java", label: "Java", icon: "☕", ext: "java" },
-    { value: "cpp", label: "C++", icon: "⚙️", ext: "cpp" },
-    { value: "go", label: "Go", icon: "🐹", ext: "go" },
-    { value: "rust", label: "Rust", icon: "🦀", ext: "rs" }
-  ];
+    storage.loadProjects()
+      .then(saved => {
+        if (!cancelled) setProjects(saved);
+      })
+      .catch(error => console.error('Failed to load projects:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-  // Save messages to localStorage
+  // Persist changed messages
   useEffect(() => {
-    localStorage.setItem('pandanexus-code-history', JSON.stringify(messages));
-  }, [messages]);
+    if (!historyLoaded) return;
+    const timer = setTimeout(() => storage.syncThread(CODE_STUDIO_THREAD, messages), 400);
+    return () => clearTimeout(timer);
+  }, [messages, historyLoaded]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
-  // Load projects from localStorage
-  useEffect(() => {
-    const savedProjects = localStorage.getItem('pandanexus-projects');
-    if (savedProjects) {
-      try {
-        const parsed = JSON.parse(savedProjects);
-        setProjects(parsed);
-      } catch (error) {
-        console.error('Failed to load projects:', error);
-      }
-    }
-  }, []);
-
-  const saveProjects = (updatedProjects: Project[]) => {
-    setProjects(updatedProjects);
-    localStorage.setItem('pandanexus-projects', JSON.stringify(updatedProjects));
+  const saveProject = (project: Project) => {
+    setProjects(prev => [...prev.filter(p => p.id !== project.id), project]);
+    storage.saveProject(project).catch(() => toast.error("Failed to save project"));
   };
 
-  const copyCode = async (code: string) => {
-    try {
-      await navigator.clipboard.writeText(code);
-      toast.success("📋 Code copied!", { 
-        description: "Ready to paste in your editor",
-        duration: 1500 
-      });
-    } catch {
-      toast.error("Copy failed");
-    }
+  // Edit the open project; storage writes are debounced while typing
+  const updateProject = (update: (project: Project) => Project) => {
+    const project = currentProjectRef.current;
+    if (!project) return;
+
+    const next = update(project);
+    currentProjectRef.current = next;
+    setCurrentProject(next);
+    setProjects(prev => prev.map(p => (p.id === next.id ? next : p)));
+
+    const timers = projectSaveTimers.current;
+    clearTimeout(timers.get(next.id));
+    timers.set(next.id, setTimeout(() => {
+      timers.delete(next.id);
+      storage.saveProject(next).catch(() => toast.error("Failed to save project"));
+    }, 400));
   };
 
-  const downloadCode = (code: string, filename: string) => {
-    const blob = new Blob([code], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    toast.success(`💾 Saved as ${filename}`, { duration: 1500 });
+  const openFile = showEditor ? currentProject?.files.find(f => f.name === activeFile) : undefined;
+
+  // Replace the targeted file with the matching file of the reply
+  const applyTarget = (message: Message): (() => void) | undefined => {
+    const target = message.targetFile;
+    if (!target || !currentProject?.files.some(f => f.name === target)) return undefined;
+    const files = messageFiles(message);
+    const file = files.find(f => f.name === target) || (files.length === 1 ? files[0] : undefined);
+    if (!file) return undefined;
+
+    return () => {
+      updateProject(p => updateFileContent(p, target, file.content));
+      setActiveFile(target);
+      setShowEditor(true);
+      toast.success(`✏️ Updated ${target}`, { duration: 1500 });
+    };
   };
 
-  const saveToProject = (code: string, language: string) => {
+  // Save a reply's files as a new project, or merge them into the open one
+  const saveToProject = (files: ProjectFile[]) => {
+    if (files.length === 0) return;
+
     if (!projectName.trim()) {
-      toast.error("Please enter a project name first");
+      if (!currentProject) {
+        toast.error("Please enter a project name first");
+        return;
+      }
+
+      const updatedProject = upsertFiles(currentProject, files);
+      saveProject(updatedProject);
+      setCurrentProject(updatedProject);
+
+      toast.success("🎉 Project updated!", {
+        description: `${files.length} file${files.length === 1 ? '' : 's'} saved to ${updatedProject.name}`,
+        duration: 2000,
+      });
       return;
     }
 
-    const langInfo = languages.find(l => l.value === language) || languages[0];
-    const fileName = `main.${langInfo.ext}`;
+    const language = files[0].language;
+    const langInfo = languages.find(l => l.value === language) || languages.find(l => l.value === selectedLanguage) || languages[0];
     
     const newProject: Project = {
       id: Date.now().toString(),
       name: projectName,
       description: `${langInfo.label} project created with PandaNexus`,
-      language: language,
-      files: [{
-        name: fileName,
-        content: code,
-        language: language
-      }],
+      language: langInfo.value,
+      files,
       createdAt: new Date()
     };
 
-    const updatedProjects = [...projects, newProject];
-    saveProjects(updatedProjects);
+    saveProject(newProject);
     setCurrentProject(newProject);
+    setActiveFile(files[0].name);
     setProjectName("");
     
     toast.success("🎉 Project saved!", {
-      description: `${newProject.name} added to workspace`,
+      description: `${newProject.name} added to workspace with ${files.length} file${files.length === 1 ? '' : 's'}`,
       duration: 2000,
     });
   };
 
+  const exportProject = async () => {
+    if (!currentProject) return;
+    try {
+      await downloadProjectZip(currentProject);
+      toast.success("📦 Project exported!", {
+        description: `${currentProject.name} downloaded as a zip`,
+        duration: 1500,
+      });
+    } catch (error) {
+      console.error("Project export failed:", error);
+      toast.error("Failed to export project");
+    }
+  };
+
+  const importProject = async (load: () => ReturnType<typeof importProjectZip>) => {
+    try {
+      const { project, skipped } = await load();
+      // Keep imported copies apart from existing projects of the same name
+      const taken = new Set(projects.map(p => p.name));
+      let name = project.name;
+      for (let counter = 2; taken.has(name); counter++) name = `${project.name} (${counter})`;
+      const imported = { ...project, name };
+
+      saveProject(imported);
+      setCurrentProject(imported);
+      setSelectedLanguage(imported.language);
+      setActiveFile(imported.files[0]?.name ?? null);
+      setShowEditor(true);
+
+      toast.success(`📂 Imported ${imported.name}`, {
+        description: `${imported.files.length} files${skipped ? `, ${skipped} binary or oversized files skipped` : ''}`,
+        duration: 2000,
+      });
+    } catch (error) {
+      console.error("Project import failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import project");
+    }
+  };
+
   // AI spell check
   const handleSpellCheck = async () => {
     if (!inputValue.trim() || isSpellChecking) return;
@@ -217,16 +313,9 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
 
   // Stop streaming
   const handleStopStreaming = () => {
-    if (isLoading && streamingMessageId) {
-      aiService.cancelRequest();
-      setIsLoading(false);
-      setStreamingMessageId(null);
-      
-      setMessages(prev => prev.map(msg => 
-        msg.id === streamingMessageId 
-          ? { ...msg, content: msg.content + '\n\n⏹️ **Code generation stopped**', isStreaming: false }
-          : msg
-      ));
+    // The cancelled stream reports back and closes its message itself
+    if (isLoading && requestRef.current) {
+      requestRef.current.cancel();
       
       toast.info("⏹️ Code generation stopped", {
         description: "Request cancelled successfully",
@@ -253,6 +342,26 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
   };
 
   // Ultra-fast streaming submission
+  // The code persona, filled in with the selected language and open project
+  const requestOptions = (): AIRequestOptions => ({
+    system: personaLibrary.systemPrompt('code', undefined, {
+      language: languages.find(l => l.value === selectedLanguage)?.label ?? selectedLanguage,
+      project: currentProject?.name ?? (projectName.trim() || undefined)
+    })
+  });
+
+  // A thread plus a prompt, which carries the contents of the file it is about
+  const historyWith = (prompt: string, before: Message[] = messages, file: ProjectFile | undefined = openFile): AIMessage[] => [
+    ...before.map(m => ({ role: m.role, content: m.content, pinned: m.pinned })),
+    { role: 'user', content: file ? withFileContext(prompt, file) : prompt }
+  ];
+
+  const draftContext = aiService.buildContext(historyWith(inputValue), 'code', requestOptions());
+
+  const togglePin = (messageId: string) => {
+    setMessages(prev => prev.map(msg => (msg.id === messageId ? { ...msg, pinned: !msg.pinned } : msg)));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!inputValue.trim() || (isLoading && !streamingMessageId)) return;
@@ -268,11 +377,41 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
       content: inputValue,
       role: 'user',
       timestamp: new Date(),
-      language: selectedLanguage
+      language: selectedLanguage,
+      targetFile: openFile?.name
     };
 
-    setMessages(prev => [...prev, userMessage]);
     setInputValue("");
+    // Behind earlier queued prompts, so replies keep their order
+    if (!isReachable || messages.some(m => m.queued)) {
+      setMessages(prev => [...prev, { ...userMessage, queued: true }]);
+      toast.info(isReachable ? "⏳ Queued" : "📴 Offline", {
+        description: isReachable ? "It goes out after the messages still waiting" : "Your message will be sent when the connection is back",
+        duration: 2000,
+      });
+      return;
+    }
+
+    setMessages(prev => [...prev, userMessage]);
+    await streamReply(messages, userMessage);
+  };
+
+  // Send the prompts queued while offline once the provider can be reached again: oldest first,
+  // each waiting for the reply to the one before. Checked after every render.
+  const sendQueued = () => {
+    if (!historyLoaded || !isReachable || isLoading) return;
+    const index = messages.findIndex(m => m.queued);
+    if (index === -1) return;
+
+    const prompt = messages[index];
+    setMessages(prev => prev.map(m => (m.id === prompt.id ? { ...m, queued: undefined } : m)));
+    streamReply(messages.slice(0, index), prompt);
+  };
+
+  useEffect(sendQueued);
+
+  // Stream the answer to `userMessage`, which follows the `before` thread
+  const streamReply = async (before: Message[], userMessage: Message) => {
     setIsLoading(true);
 
     // Create streaming message
@@ -284,28 +423,29 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
       content: '',
       role: 'assistant',
       timestamp: new Date(),
-      isStreaming: true
+      isStreaming: true,
+      targetFile: userMessage.targetFile
     };
     
-    setMessages(prev => [...prev, streamingMessage]);
+    setMessages(prev => insertAfter(prev, userMessage.id, streamingMessage));
 
     try {
-      const conversationHistory = [...messages.slice(-6), userMessage].map(m => ({
-        role: m.role,
-        content: m.content
-      }));
+      // The file the prompt was about, as it is now
+      const file = currentProject?.files.find(f => f.name === userMessage.targetFile);
+      const conversationHistory = historyWith(userMessage.content, before, file);
 
       let streamedContent = '';
-      let responseModel = 'PandaNexus Code Master';
+      let responseModel = aiService.resolveModel('code');
+      let fallbackFrom: string | undefined;
 
-      await aiService.sendMessageStream(
+      const request = aiService.sendMessageStream(
         conversationHistory, 
         'code',
         (chunk: AIStreamChunk) => {
           if (chunk.error) {
             setMessages(prev => prev.map(msg => 
               msg.id === streamingId 
-                ? { ...msg, content: chunk.chunk || 'Connection error', isStreaming: false }
+                ? { ...msg, content: [streamedContent, chunk.chunk || 'Connection error'].filter(Boolean).join('\n\n'), isStreaming: false }
                 : msg
             ));
             setIsLoading(false);
@@ -316,6 +456,9 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
           if (chunk.model) {
             responseModel = chunk.model;
           }
+          if (chunk.fallbackFrom) {
+            fallbackFrom = chunk.fallbackFrom;
+          }
           
           if (!chunk.isFinal) {
             streamedContent += chunk.chunk;
@@ -325,17 +468,8 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
                 : msg
             ));
           } else {
-            // Extract code
-            let code = '';
-            let detectedLanguage = selectedLanguage;
-            
-            const codeMatch = streamedContent.match(/```(\w+)?\n([\s\S]*?)```/);
-            if (codeMatch) {
-              code = codeMatch[2].trim();
-              detectedLanguage = codeMatch[1] || selectedLanguage;
-            } else if (streamedContent.includes('{') || streamedContent.includes('function') || streamedContent.includes('class')) {
-              code = streamedContent;
-            }
+            // Every fenced block becomes a file
+            const files = extractCodeFiles(streamedContent, selectedLanguage);
 
             setMessages(prev => prev.map(msg => 
               msg.id === streamingId 
@@ -344,8 +478,9 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
                     content: streamedContent, 
                     isStreaming: false, 
                     model: responseModel,
-                    code,
-                    language: detectedLanguage
+                    fallbackFrom,
+                    files,
+                    language: files[0]?.language || selectedLanguage
                   }
                 : msg
             ));
@@ -357,28 +492,80 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
               duration: 1500,
             });
           }
-        }
+        },
+        requestOptions()
       );
+      requestRef.current = request;
+      await request.done;
+      if (requestRef.current === request) requestRef.current = null;
       
     } catch (error) {
       console.error("Code generation error:", error);
       
       setMessages(prev => prev.filter(msg => msg.id !== streamingId));
       
+      const provider = healthMonitor.active();
       const errorMessage: Message = {
         id: (Date.now() + 2).toString(),
-        content: `🔧 **Code Studio Connection Issue**\n\nHaving trouble connecting to the API at ${aiService.isApiConnected() ? 'connected' : 'disconnected'} state.\n\nI can still help with:\n• 💻 Code review and debugging\n• 🏗️ Architecture planning\n• 📚 Programming guidance\n• 🚀 Deployment strategies\n\nWhat coding challenge can I solve?`,
+        content: `🔧 **Code Studio Connection Issue**\n\nHaving trouble reaching ${provider?.label ?? 'the AI provider'}${provider?.error ? ` (${provider.error})` : ''}.\n\nI can still help with:\n• 💻 Code review and debugging\n• 🏗️ Architecture planning\n• 📚 Programming guidance\n• 🚀 Deployment strategies\n\nWhat coding challenge can I solve?`,
         role: 'assistant',
         timestamp: new Date(),
         model: 'PandaNexus Offline'
       };
       
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => insertAfter(prev, userMessage.id, errorMessage));
       setIsLoading(false);
       setStreamingMessageId(null);
     }
   };
 
+  const messageList = (
+    <div className="flex-1 h-full overflow-y-auto p-2 md:p-4 space-y-2 md:space-y-3 min-h-0">
+      {messages.map(message => (
+        <div key={message.id} className="relative group">
+          {message.isStreaming ? (
+            <StreamingMessage 
+              message={message}
+              isActive={streamingMessageId === message.id}
+            />
+          ) : (
+            <ChatMessage message={message} onTogglePin={() => togglePin(message.id)} />
+          )}
+
+          {message.role === 'user' && message.targetFile && (
+            <div className="flex justify-end mt-1">
+              <Badge variant="outline" className="text-xs bg-gradient-glass border-glass-border">
+                <FileCode className="w-3 h-3 mr-1" />
+                {message.targetFile}
+              </Badge>
+            </div>
+          )}
+          
+          {/* Enhanced Code Actions */}
+          {messageFiles(message).length > 0 && (
+            <CodeFileSet
+              files={messageFiles(message)}
+              saveLabel={projectName.trim() ? 'New project' : `Save to ${currentProject?.name}`}
+              onSave={projectName.trim() || currentProject ? () => saveToProject(messageFiles(message)) : undefined}
+              applyLabel={`Apply to ${message.targetFile}`}
+              onApply={applyTarget(message)}
+            />
+          )}
+        </div>
+      ))}
+      <div ref={messagesEndRef} />
+    </div>
+  );
+
+  const editor = currentProject && (
+    <ProjectEditor
+      project={currentProject}
+      activeFile={activeFile}
+      onOpenFile={setActiveFile}
+      onUpdateProject={updateProject}
+    />
+  );
+
   return (
     <div className="flex flex-col h-screen bg-background overflow-hidden">
       {/* WORLD-CLASS HEADER */}
@@ -391,7 +578,7 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
             <div className="flex items-center gap-2 min-w-0">
               <div className="relative shrink-0">
                 <PandaLogo className="w-7 h-7 sm:w-8 sm:h-8 md:w-10 md:h-10" animate />
-                <div className="absolute -top-0.5 -right-0.5 w-2 h-2 sm:w-3 sm:h-3 bg-primary rounded-full animate-pulse shadow-glow"></div>
+                <StatusDot className="absolute -top-0.5 -right-0.5 w-2 h-2 sm:w-3 sm:h-3" />
               </div>
               <div className="min-w-0">
                 <h1 className="text-base sm:text-lg md:text-xl font-bold bg-gradient-text bg-clip-text text-transparent flex items-center gap-2">
@@ -405,10 +592,7 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
           
           {/* Performance Indicators */}
           <div className="hidden lg:flex items-center gap-2 mr-4">
-            <Badge variant="outline" className="bg-gradient-glass border-glass-border animate-pulse text-xs">
-              <Brain className="w-3 h-3 mr-1 text-green-500" />
-              Genius
-            </Badge>
+            <ConnectionStatus queued={queuedCount} />
             <Badge variant="outline" className="bg-gradient-glass border-glass-border text-xs">
               <Cpu className="w-3 h-3 mr-1 text-blue-500" />
               {isLoading ? 'Coding' : 'Ready'}
@@ -416,13 +600,48 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
           </div>
           
           <div className="flex items-center gap-1 lg:gap-2 shrink-0">
-            <VercelDeploy>
+            <DeployDialog
+              project={currentProject}
+              onUpdateProject={updateProject}
+            >
               <Button variant="outline" size="sm" className="h-8 bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-300 px-2 lg:px-3">
                 <Rocket className="w-3 h-3 lg:w-4 lg:h-4" /> 
                 <span className="hidden sm:inline ml-1">Deploy</span>
               </Button>
-            </VercelDeploy>
+            </DeployDialog>
             
+            {currentProject && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowEditor(prev => !prev)}
+                className={cn(
+                  "h-8 bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-300 px-2 lg:px-3",
+                  showEditor && "bg-gradient-primary text-primary-foreground shadow-glow"
+                )}
+                title={showEditor ? "Hide files" : "Show files"}
+              >
+                <FileCode className="w-3 h-3 lg:w-4 lg:h-4" />
+                <span className="hidden lg:inline ml-1">Files</span>
+              </Button>
+            )}
+
+            {currentProject && isPreviewable(currentProject.files) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowPreview(prev => !prev)}
+                className={cn(
+                  "h-8 bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-300 px-2 lg:px-3",
+                  showPreview && "bg-gradient-primary text-primary-foreground shadow-glow"
+                )}
+                title={showPreview ? "Hide preview" : "Show preview"}
+              >
+                <Eye className="w-3 h-3 lg:w-4 lg:h-4" />
+                <span className="hidden lg:inline ml-1">Preview</span>
+              </Button>
+            )}
+
             <Button
               variant="outline"
               size="sm"
@@ -432,6 +651,12 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
               <Trash2 className="w-3 h-3 lg:w-4 lg:h-4" />
               <span className="hidden lg:inline ml-1">Clear</span>
             </Button>
+
+            <SettingsDialog>
+              <Button variant="outline" size="sm" className="h-8 bg-gradient-glass border-glass-border hover:shadow-glow transition-all duration-300 px-2 lg:px-3" title="Settings">
+                <Settings className="w-3 h-3 lg:w-4 lg:h-4" />
+              </Button>
+            </SettingsDialog>
             
             <Badge variant="outline" className="bg-gradient-glass border-glass-border hidden md:flex text-xs">
               <Terminal className="w-3 h-3 mr-1" /> Active
@@ -472,6 +697,7 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
             <Select value={currentProject?.id || ""} onValueChange={(value) => {
               const project = projects.find(p => p.id === value);
               setCurrentProject(project || null);
+              setActiveFile(project?.files[0]?.name ?? null);
               if (project) {
                 setSelectedLanguage(project.language);
                 toast.success(`📂 Loaded ${project.name}`, {
@@ -494,75 +720,85 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
                 ))}
               </SelectContent>
             </Select>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 sm:h-8 px-2 bg-gradient-glass border-glass-border hover:shadow-glow shrink-0"
+                  title="Export or import projects"
+                >
+                  <Package className="w-3 h-3 sm:w-4 sm:h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-48">
+                <DropdownMenuItem disabled={!currentProject} onClick={exportProject}>
+                  <Download className="w-3 h-3 mr-2" />
+                  Export as zip
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => zipInputRef.current?.click()}>
+                  <Upload className="w-3 h-3 mr-2" />
+                  Import zip...
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => folderInputRef.current?.click()}>
+                  <FolderInput className="w-3 h-3 mr-2" />
+                  Import folder...
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <input
+              ref={zipInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) importProject(() => importProjectZip(file));
+              }}
+            />
+            <input
+              ref={el => {
+                folderInputRef.current = el;
+                // Directory picking is not part of the typed input attributes
+                el?.setAttribute('webkitdirectory', '');
+              }}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={e => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = '';
+                if (files.length) importProject(() => importProjectFolder(files));
+              }}
+            />
           </div>
         </div>
       </Card>
 
       {/* MESSAGES AREA */}
-      <div className="flex-1 overflow-y-auto p-2 md:p-4 space-y-2 md:space-y-3 min-h-0">
-        {messages.map(message => (
-          <div key={message.id} className="relative group">
-            {message.isStreaming ? (
-              <StreamingMessage 
-                message={message}
-                isActive={streamingMessageId === message.id}
-              />
-            ) : (
-              <ChatMessage message={message} />
+      {currentProject && (showEditor || showPreview) ? (
+        <ResizablePanelGroup direction={isMobile ? "vertical" : "horizontal"} className="flex-1 min-h-0">
+          <ResizablePanel defaultSize={isMobile ? 45 : 55} minSize={25} className="p-2 md:p-4 md:pr-2">
+            {showEditor && showPreview ? (
+              <ResizablePanelGroup direction="vertical">
+                <ResizablePanel defaultSize={55} minSize={20} className="pb-1">{editor}</ResizablePanel>
+                <ResizableHandle withHandle />
+                <ResizablePanel defaultSize={45} minSize={20} className="pt-1">
+                  <PreviewPane files={currentProject.files} />
+                </ResizablePanel>
+              </ResizablePanelGroup>
+            ) : showEditor ? editor : (
+              <PreviewPane files={currentProject.files} />
             )}
-            
-            {/* Enhanced Code Actions */}
-            {message.code && (
-              <Card className="mt-2 sm:mt-3 bg-gradient-glass border-glass-border shadow-glass overflow-hidden">
-                <div className="flex items-center justify-between p-2 sm:p-3 border-b border-glass-border bg-muted/20">
-                  <div className="flex items-center gap-2 min-w-0">
-                    <FileCode className="w-3 h-3 sm:w-4 sm:h-4 text-primary shrink-0" />
-                    <span className="text-xs sm:text-sm font-medium truncate">{message.language}</span>
-                    <Badge variant="secondary" className="text-xs shrink-0">
-                      {message.code.split('\n').length} lines
-                    </Badge>
-                  </div>
-                  <div className="flex gap-1 shrink-0">
-                    <Button 
-                      size="sm" 
-                      variant="outline" 
-                      onClick={() => copyCode(message.code!)} 
-                      className="h-6 w-6 sm:h-7 sm:w-7 lg:w-auto lg:px-2 p-0 lg:p-2 bg-gradient-glass border-glass-border hover:shadow-glow"
-                    >
-                      <Copy className="w-3 h-3" />
-                      <span className="hidden lg:inline ml-1">Copy</span>
-                    </Button>
-                    <Button 
-                      size="sm" 
-                      variant="outline" 
-                      onClick={() => downloadCode(message.code!, `code.${message.language}`)} 
-                      className="h-6 w-6 sm:h-7 sm:w-7 lg:w-auto lg:px-2 p-0 lg:p-2 bg-gradient-glass border-glass-border hover:shadow-glow"
-                    >
-                      <Download className="w-3 h-3" />
-                      <span className="hidden lg:inline ml-1">Save</span>
-                    </Button>
-                    {projectName.trim() && (
-                      <Button 
-                        size="sm" 
-                        variant="outline" 
-                        onClick={() => saveToProject(message.code!, message.language!)} 
-                        className="h-6 w-6 sm:h-7 sm:w-7 lg:w-auto lg:px-2 p-0 lg:p-2 bg-gradient-primary text-primary-foreground hover:shadow-glow"
-                      >
-                        <Save className="w-3 h-3" />
-                        <span className="hidden lg:inline ml-1">Project</span>
-                      </Button>
-                    )}
-                  </div>
-                </div>
-                <pre className="p-2 sm:p-3 md:p-4 overflow-x-auto text-xs sm:text-sm bg-muted/10 max-h-80 font-mono">
-                  <code className="text-foreground">{message.code}</code>
-                </pre>
-              </Card>
-            )}
-          </div>
-        ))}
-        <div ref={messagesEndRef} />
-      </div>
+          </ResizablePanel>
+          <ResizableHandle withHandle />
+          <ResizablePanel defaultSize={isMobile ? 55 : 45} minSize={25}>
+            {messageList}
+          </ResizablePanel>
+        </ResizablePanelGroup>
+      ) : messageList}
 
       {/* REVOLUTIONARY INPUT SYSTEM */}
       <Card className="border-0 border-t border-glass-border bg-gradient-glass backdrop-blur-xl m-2 md:m-4 md:mt-0 shrink-0 shadow-glow">
@@ -598,7 +834,9 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
                 ref={inputRef}
                 value={inputValue}
                 onChange={e => setInputValue(e.target.value)}
-                placeholder={`Describe your ${selectedLanguage} coding task... Be specific for best results!`}
+                placeholder={openFile
+                  ? `Ask for changes to ${openFile.name}...`
+                  : `Describe your ${selectedLanguage} coding task... Be specific for best results!`}
                 className="min-h-[80px] sm:min-h-[100px] bg-input/50 border-glass-border backdrop-blur-sm focus:ring-2 focus:ring-primary/20 resize-none text-sm font-mono"
                 disabled={isSpellChecking}
                 onKeyDown={(e) => {
@@ -616,9 +854,10 @@ const CodeInterface = ({ onBack }: CodeInterfaceProps) => {
                 }}
               />
               <div className="flex items-center justify-between mt-2">
-                <p className="text-xs text-muted-foreground">
-                  Ctrl+Enter to send • ESC to stop • Be specific for best results
-                </p>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <ContextMeter context={draftContext} />
+                  <p>Ctrl+Enter to send • ESC to stop • Be specific for best results</p>
+                </div>
                 <div className="flex items-center gap-1">
                   <Button
                     type="button"
@@ -0,0 +1,101 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { RefreshCw, Wifi, WifiOff } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useHealth } from "@/hooks/use-health";
+import { healthMonitor, type HealthStatus, type ProviderHealth } from "@/services/health";
+
+const STATUS_LABELS: Record<HealthStatus, string> = {
+  checking: 'Checking',
+  online: 'Online',
+  degraded: 'Degraded',
+  offline: 'Offline',
+  unconfigured: 'No key',
+};
+
+const DOT_STYLES: Record<HealthStatus, string> = {
+  checking: 'bg-muted-foreground',
+  online: 'bg-green-500',
+  degraded: 'bg-yellow-500',
+  offline: 'bg-red-500',
+  unconfigured: 'bg-muted-foreground',
+};
+
+// The active provider's state, with the browser going offline overriding it
+const useActiveStatus = (): HealthStatus => {
+  const health = useHealth();
+  if (!health.online) return 'offline';
+  return health.providers.find(p => p.active)?.status ?? 'checking';
+};
+
+export const StatusDot = ({ className }: { className?: string }) => {
+  const status = useActiveStatus();
+  return <div className={cn("rounded-full", DOT_STYLES[status], status === 'online' && "shadow-glow", status === 'checking' && "animate-pulse", className)} />;
+};
+
+const checkedAgo = (checkedAt?: number) => {
+  if (!checkedAt) return 'not checked yet';
+  const seconds = Math.round((Date.now() - checkedAt) / 1000);
+  return seconds < 60 ? `checked ${seconds}s ago` : `checked ${Math.round(seconds / 60)}m ago`;
+};
+
+const ProviderRow = ({ provider }: { provider: ProviderHealth }) => (
+  <div className="flex items-start gap-2">
+    <div className={cn("mt-1 w-2 h-2 rounded-full shrink-0", DOT_STYLES[provider.status])} />
+    <div className="min-w-0 flex-1">
+      <div className="flex items-center gap-2">
+        <span className="font-medium truncate">{provider.label}</span>
+        {provider.active && <Badge variant="outline" className="h-4 px-1 text-[10px]">in use</Badge>}
+        <span className="ml-auto font-mono text-muted-foreground">
+          {provider.latencyMs !== undefined && provider.status !== 'offline' ? `${provider.latencyMs}ms` : STATUS_LABELS[provider.status]}
+        </span>
+      </div>
+      <p className="text-muted-foreground truncate">
+        {provider.error ? `${provider.error} · ` : ''}{checkedAgo(provider.checkedAt)}
+      </p>
+    </div>
+  </div>
+);
+
+interface ConnectionStatusProps {
+  // Prompts waiting for the connection to come back
+  queued?: number;
+  className?: string;
+}
+
+// Header badge for the provider chat requests go to; the popover lists every configured provider
+const ConnectionStatus = ({ queued = 0, className }: ConnectionStatusProps) => {
+  const health = useHealth();
+  const status = useActiveStatus();
+  const active = health.providers.find(p => p.active);
+  const showLatency = status === 'online' || status === 'degraded';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className={className} title="Connection">
+          <Badge variant="outline" className="bg-gradient-glass border-glass-border text-xs gap-1 cursor-pointer">
+            {status === 'offline' ? <WifiOff className="w-3 h-3 text-red-500" /> : <Wifi className={cn("w-3 h-3", status === 'degraded' ? 'text-yellow-500' : 'text-green-500')} />}
+            {STATUS_LABELS[status]}
+            {showLatency && active?.latencyMs !== undefined && <span className="font-mono text-muted-foreground">{active.latencyMs}ms</span>}
+            {queued > 0 && <span className="text-muted-foreground">· {queued} queued</span>}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 bg-gradient-glass backdrop-blur-xl border-glass-border text-xs space-y-3">
+        {!health.online && <p className="text-destructive">This browser is offline.</p>}
+        {queued > 0 && <p className="text-muted-foreground">{queued} prompt{queued === 1 ? '' : 's'} will be sent once the connection is back.</p>}
+        {health.providers.map(provider => (
+          <ProviderRow key={`${provider.provider}:${provider.baseUrl}`} provider={provider} />
+        ))}
+        <Button size="sm" variant="outline" onClick={() => healthMonitor.check()} className="w-full h-7 text-xs bg-gradient-glass border-glass-border">
+          <RefreshCw className="w-3 h-3 mr-1" />
+          Check now
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ConnectionStatus;
@@ -0,0 +1,39 @@
+import { Gauge } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { formatTokens, type ContextWindow } from "@/lib/context";
+
+interface ContextMeterProps {
+  context: ContextWindow;
+  // Extra controls under the details, e.g. summarization
+  children?: React.ReactNode;
+  className?: string;
+}
+
+// How much of the model's window the next request fills
+const ContextMeter = ({ context, children, className }: ContextMeterProps) => {
+  const share = context.budget ? Math.min(context.usedTokens / context.budget, 1) : 1;
+  const tone = context.overflow ? 'bg-destructive' : share > 0.85 ? 'bg-yellow-500' : 'bg-primary';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className={cn("flex items-center gap-1 hover:text-foreground", context.overflow && "text-destructive", className)} title="Context window">
+          <Gauge className="w-3 h-3" />
+          <span className="relative h-1.5 w-10 overflow-hidden rounded-full bg-muted/40">
+            <span className={cn("absolute inset-y-0 left-0", tone)} style={{ width: `${share * 100}%` }} />
+          </span>
+          <span className="font-mono">{formatTokens(context.usedTokens)}/{formatTokens(context.budget)}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 bg-gradient-glass backdrop-blur-xl border-glass-border text-xs space-y-2">
+        <p>About {context.usedTokens.toLocaleString()} of {context.budget.toLocaleString()} prompt tokens in use ({formatTokens(context.contextWindow)} window, the rest kept for the reply).</p>
+        {context.dropped > 0 && <p className="text-muted-foreground">{context.dropped} older message{context.dropped === 1 ? '' : 's'} left out. Pin a message to keep it.</p>}
+        {context.overflow && <p className="text-destructive">The prompt and pinned messages alone exceed the window.</p>}
+        {children}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ContextMeter;
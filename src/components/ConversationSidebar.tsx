@@ -0,0 +1,170 @@
+import { useState } from "react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarInput,
+  useSidebar,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Loader2, MessageSquare, MoreHorizontal, Pencil, Pin, PinOff, Plus, Trash2 } from "lucide-react";
+import PandaLogo from "./PandaLogo";
+import type { Conversation } from "@/types/chat";
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string;
+  // Conversations with a reply still streaming
+  streamingIds?: string[];
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ConversationSidebar = ({
+  conversations,
+  activeId,
+  streamingIds = [],
+  onSelect,
+  onNew,
+  onRename,
+  onTogglePin,
+  onDelete,
+}: ConversationSidebarProps) => {
+  const { isMobile, setOpenMobile } = useSidebar();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const pinned = conversations.filter(c => c.pinned);
+  const recent = conversations.filter(c => !c.pinned);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  const handleSelect = (id: string) => {
+    onSelect(id);
+    if (isMobile) setOpenMobile(false);
+  };
+
+  const handleNew = () => {
+    onNew();
+    if (isMobile) setOpenMobile(false);
+  };
+
+  const renderItem = (conversation: Conversation) => (
+    <SidebarMenuItem key={conversation.id}>
+      {editingId === conversation.id ? (
+        <SidebarInput
+          autoFocus
+          value={draftTitle}
+          onChange={e => setDraftTitle(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={e => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setEditingId(null);
+          }}
+          className="h-8 text-sm"
+        />
+      ) : (
+        <>
+          <SidebarMenuButton
+            isActive={conversation.id === activeId}
+            onClick={() => handleSelect(conversation.id)}
+            onDoubleClick={() => startRename(conversation)}
+            tooltip={conversation.title}
+          >
+            {streamingIds.includes(conversation.id)
+              ? <Loader2 className="animate-spin text-primary" />
+              : conversation.pinned ? <Pin className="text-primary" /> : <MessageSquare />}
+            <span className="truncate">{conversation.title}</span>
+          </SidebarMenuButton>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <SidebarMenuAction showOnHover>
+                <MoreHorizontal />
+                <span className="sr-only">Conversation actions</span>
+              </SidebarMenuAction>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent side="right" align="start" className="w-40">
+              <DropdownMenuItem onClick={() => startRename(conversation)}>
+                <Pencil className="w-3 h-3 mr-2" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onTogglePin(conversation.id)}>
+                {conversation.pinned ? <PinOff className="w-3 h-3 mr-2" /> : <Pin className="w-3 h-3 mr-2" />}
+                {conversation.pinned ? 'Unpin' : 'Pin'}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => onDelete(conversation.id)} className="text-red-500 focus:text-red-500">
+                <Trash2 className="w-3 h-3 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </>
+      )}
+    </SidebarMenuItem>
+  );
+
+  return (
+    <Sidebar className="border-glass-border">
+      <SidebarHeader>
+        <div className="flex items-center gap-2 px-1 py-1">
+          <PandaLogo className="w-6 h-6 shrink-0" />
+          <span className="font-semibold text-sm bg-gradient-text bg-clip-text text-transparent">Conversations</span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleNew}
+          className="w-full justify-start bg-gradient-glass border-glass-border hover:shadow-glow h-8 text-xs"
+        >
+          <Plus className="w-3 h-3 mr-2" />
+          New chat
+        </Button>
+      </SidebarHeader>
+
+      <SidebarContent>
+        {pinned.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Pinned</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>{pinned.map(renderItem)}</SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+        <SidebarGroup>
+          <SidebarGroupLabel>Recent</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>{recent.map(renderItem)}</SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,581 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ExternalLink, Rocket, Settings, CheckCircle, AlertCircle, Globe, Copy, KeyRound, ChevronDown, Square, Terminal, History, RotateCcw, ArchiveRestore } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import { cn } from "@/lib/utils";
+import { projectSlug } from "@/lib/projectArchive";
+import { recordDeployment, restoreSnapshot, snapshotHash } from "@/lib/deployments";
+import { storage } from "@/services/storage";
+import {
+  DEPLOY_TARGETS,
+  getDeployTarget,
+  type DeployField,
+  type DeployLogLine,
+  type DeployResult,
+  type DeploySettings,
+  type DeployTarget,
+  type DeployTargetId,
+} from "@/services/deploy";
+import type { DeploymentRecord, DeploymentStatus, Project } from "@/types/project";
+
+interface DeployDialogProps {
+  children: React.ReactNode;
+  // Deploys this project; without one the dialog offers the saved projects
+  project?: Project | null;
+  // Keeps the owner's copy of `project` in sync; other projects are saved straight to storage
+  onUpdateProject?: (update: (project: Project) => Project) => void;
+}
+
+// Non-secret settings per target, plus the last target used
+interface SavedDeploySettings {
+  target: DeployTargetId;
+  targets: Partial<Record<DeployTargetId, DeploySettings>>;
+}
+
+const SETTINGS_META = 'deploySettings';
+const DEFAULT_SETTINGS: SavedDeploySettings = { target: 'vercel', targets: {} };
+
+const statusBadge: Record<DeploymentStatus, { label: string; className: string }> = {
+  success: { label: 'Live', className: 'text-green-500 border-green-500/40' },
+  error: { label: 'Failed', className: 'text-red-500 border-red-500/40' },
+  cancelled: { label: 'Cancelled', className: 'text-muted-foreground' },
+};
+
+const DeployDialog = ({ children, project, onUpdateProject }: DeployDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isDeploying, setIsDeploying] = useState(false);
+  const [deployStatus, setDeployStatus] = useState<'idle' | 'deploying' | 'success' | 'error'>('idle');
+  const [projectName, setProjectName] = useState("pandanexus-app");
+  const [result, setResult] = useState<DeployResult | null>(null);
+  const [saved, setSaved] = useState<SavedDeploySettings>(DEFAULT_SETTINGS);
+  // Tokens stay in memory for this session only
+  const [secrets, setSecrets] = useState<Partial<Record<DeployTargetId, DeploySettings>>>({});
+  const [savedProjects, setSavedProjects] = useState<Project[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [status, setStatus] = useState("");
+  const [logs, setLogs] = useState<DeployLogLine[]>([]);
+  const [errorMessage, setErrorMessage] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+  const logsRef = useRef<HTMLDivElement>(null);
+  const projectRef = useRef(project);
+  projectRef.current = project;
+
+  const target = getDeployTarget(saved.target);
+  const selected = project ?? savedProjects.find(p => p.id === selectedId) ?? null;
+  const summary = selected ? target.summary(selected) : [];
+  const history = selected?.deployments ?? [];
+
+  const valueOf = (field: DeployField, t: DeployTarget = target) =>
+    (field.secret ? secrets[t.id]?.[field.key] : saved.targets[t.id]?.[field.key]) ?? field.defaultValue ?? '';
+  const isConfigured = (t: DeployTarget) => t.fields.every(field => field.optional || valueOf(field, t).trim());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    storage.getMeta<SavedDeploySettings>(SETTINGS_META)
+      .then(settings => settings && setSaved({ ...DEFAULT_SETTINGS, ...settings }))
+      .catch(error => console.error('Failed to load deploy settings:', error));
+    if (!project) {
+      storage.loadProjects()
+        .then(setSavedProjects)
+        .catch(error => console.error('Failed to load projects:', error));
+    }
+  }, [isOpen, project]);
+
+  const selectedName = selected?.name;
+  useEffect(() => {
+    if (selectedName) setProjectName(projectSlug(selectedName));
+  }, [selectedName]);
+
+  useEffect(() => {
+    const panel = logsRef.current;
+    if (panel) panel.scrollTop = panel.scrollHeight;
+  }, [logs.length]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const persist = (next: SavedDeploySettings) => {
+    setSaved(next);
+    storage.setMeta(SETTINGS_META, next).catch(error => console.error('Failed to save deploy settings:', error));
+  };
+
+  const selectTarget = (id: DeployTargetId) => {
+    persist({ ...saved, target: id });
+    setDeployStatus('idle');
+    setResult(null);
+    setLogs([]);
+  };
+
+  const updateField = (field: DeployField, value: string) => {
+    if (field.secret) {
+      setSecrets(prev => ({ ...prev, [target.id]: { ...prev[target.id], [field.key]: value } }));
+    } else {
+      persist({ ...saved, targets: { ...saved.targets, [target.id]: { ...saved.targets[target.id], [field.key]: value } } });
+    }
+  };
+
+  const updateProjectById = async (id: string, update: (project: Project) => Project) => {
+    if (onUpdateProject && projectRef.current?.id === id) {
+      onUpdateProject(update);
+      return;
+    }
+    const stored = (await storage.loadProjects()).find(p => p.id === id);
+    if (!stored) return;
+    const next = update(stored);
+    setSavedProjects(prev => prev.map(p => (p.id === id ? next : p)));
+    await storage.saveProject(next);
+  };
+
+  // Publish `source` with `deployTarget` and record the attempt in the project's history
+  const runDeploy = async (deployTarget: DeployTarget, source: Project) => {
+    if (!isConfigured(deployTarget)) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsDeploying(true);
+    setDeployStatus('deploying');
+    setResult(null);
+    setErrorMessage("");
+    setStatus("");
+    setLogs([]);
+
+    const settings = Object.fromEntries(deployTarget.fields.map(field => [field.key, valueOf(field, deployTarget).trim()]));
+    const files = source.files;
+    const saveRecord = async (status: DeploymentStatus, details: Partial<DeploymentRecord>) => {
+      try {
+        const hash = await snapshotHash(files);
+        const entry: DeploymentRecord = {
+          id: Date.now().toString(),
+          target: deployTarget.id,
+          createdAt: new Date(),
+          status,
+          hash,
+          ...details,
+        };
+        // The snapshot goes first so the history never points at files that aren't stored
+        await storage.saveSnapshot({ hash, files });
+        await updateProjectById(source.id, p => recordDeployment(p, entry));
+      } catch (error) {
+        console.error('Failed to record deployment:', error);
+      }
+    };
+
+    try {
+      toast.success("🚀 Starting deployment...", {
+        description: `Publishing ${files.length} files with ${deployTarget.label}`,
+        duration: 1500,
+      });
+
+      const deployed = await deployTarget.deploy(
+        { ...source, name: projectName },
+        settings,
+        {
+          onStatus: setStatus,
+          onLog: line => setLogs(prev => [...prev, line]),
+        },
+        controller.signal
+      );
+
+      setResult(deployed);
+      setDeployStatus('success');
+      saveRecord('success', { url: deployed.url, revision: deployed.revision, detail: deployed.detail });
+
+      toast.success("🎉 Deployment Successful!", {
+        description: deployed.url ? "Your PandaNexus app is now live!" : deployed.detail,
+        duration: 3000,
+      });
+    } catch (error) {
+      const cancelled = controller.signal.aborted;
+      const message = cancelled ? 'Deployment cancelled' : error instanceof Error ? error.message : String(error);
+      console.error(`${deployTarget.label} deployment failed:`, error);
+      setErrorMessage(message);
+      setDeployStatus('error');
+      saveRecord(cancelled ? 'cancelled' : 'error', { error: message });
+      toast.error(cancelled ? "⏹️ Deployment cancelled" : "❌ Deployment Failed", {
+        description: cancelled ? "Stopped following the deployment" : message,
+        duration: 3000,
+      });
+    } finally {
+      abortRef.current = null;
+      setIsDeploying(false);
+    }
+  };
+
+  const handleDeploy = () => {
+    if (selected) runDeploy(target, selected);
+  };
+
+  // Files of an earlier deployment, loaded on demand since the history only keeps their hash
+  const loadSnapshot = async (entry: DeploymentRecord) => {
+    const snapshot = await storage.loadSnapshot(entry.hash);
+    if (!snapshot) throw new Error(`Snapshot ${entry.hash} is no longer stored`);
+    return snapshot;
+  };
+
+  // Publish an earlier snapshot again, with the target it went to
+  const redeploy = (entry: DeploymentRecord) => {
+    if (!selected) return;
+    loadSnapshot(entry)
+      .then(snapshot => {
+        persist({ ...saved, target: entry.target });
+        runDeploy(getDeployTarget(entry.target), { ...selected, files: snapshot.files });
+      })
+      .catch(error => {
+        console.error('Failed to load snapshot:', error);
+        toast.error("Couldn't load the deployed files", { description: error instanceof Error ? error.message : undefined });
+      });
+  };
+
+  const restore = (entry: DeploymentRecord) => {
+    if (!selected) return;
+    const previous = selected.files;
+    loadSnapshot(entry)
+      .then(snapshot => updateProjectById(selected.id, p => restoreSnapshot(p, snapshot)))
+      .then(() => toast.success(`⏪ Restored files from ${entry.hash}`, {
+        duration: 4000,
+        action: { label: 'Undo', onClick: () => updateProjectById(selected.id, p => ({ ...p, files: previous })) },
+      }))
+      .catch(error => {
+        console.error('Failed to restore snapshot:', error);
+        toast.error("Failed to restore files");
+      });
+  };
+
+  const copyUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("URL copied!", {
+        description: "Deployment URL copied to clipboard",
+        duration: 1500,
+      });
+    } catch (err) {
+      console.error('Failed to copy URL:', err);
+    }
+  };
+
+  const renderField = (field: DeployField, compact = false) => (
+    <div key={field.key} className="space-y-2">
+      <Label htmlFor={`deploy-${field.key}`} className={cn(compact ? "text-xs" : "text-sm", "flex items-center gap-1")}>
+        {field.secret && <KeyRound className="w-3 h-3" />}
+        {field.label}{field.optional && ' (optional)'}
+      </Label>
+      <Input
+        id={`deploy-${field.key}`}
+        type={field.secret ? "password" : "text"}
+        value={valueOf(field)}
+        onChange={(e) => updateField(field, e.target.value)}
+        placeholder={field.placeholder}
+        autoComplete="off"
+        className={cn("bg-input/50 border-glass-border", compact ? "text-xs h-8" : "text-sm h-9 sm:h-10")}
+      />
+    </div>
+  );
+
+  const advancedFields = target.fields.filter(field => field.advanced);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="w-[95vw] max-w-lg bg-gradient-glass backdrop-blur-xl border-glass-border shadow-glass max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg sm:text-xl font-bold bg-gradient-text bg-clip-text text-transparent text-center flex items-center justify-center gap-2">
+            <Rocket className="w-5 h-5 sm:w-6 sm:h-6" />
+            Deploy Project
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 sm:space-y-6 py-4">
+          {/* Project Configuration */}
+          <Card className="p-3 sm:p-4 bg-gradient-glass border-glass-border">
+            <div className="space-y-3 sm:space-y-4">
+              <div className="flex items-center gap-2 mb-3">
+                <Settings className="w-4 h-4 text-primary" />
+                <h3 className="font-semibold text-sm sm:text-base">Project Settings</h3>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm">Target</Label>
+                <Select value={target.id} onValueChange={(value) => selectTarget(value as DeployTargetId)} disabled={isDeploying}>
+                  <SelectTrigger className="bg-input/50 border-glass-border text-sm h-9 sm:h-10">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEPLOY_TARGETS.map(t => (
+                      <SelectItem key={t.id} value={t.id}>{t.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{target.description}</p>
+              </div>
+
+              {!project && (
+                <div className="space-y-2">
+                  <Label className="text-sm">Code Studio Project</Label>
+                  <Select value={selectedId} onValueChange={setSelectedId}>
+                    <SelectTrigger className="bg-input/50 border-glass-border text-sm h-9 sm:h-10">
+                      <SelectValue placeholder={savedProjects.length ? "Choose a project" : "No saved projects yet"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {savedProjects.map(p => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {target.fields.filter(field => !field.advanced).map(field => renderField(field))}
+
+              <div className="space-y-2">
+                <Label htmlFor="projectName" className="text-sm">Project Name</Label>
+                <Input
+                  id="projectName"
+                  value={projectName}
+                  onChange={(e) => setProjectName(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '-'))}
+                  placeholder="my-awesome-app"
+                  className="bg-input/50 border-glass-border text-sm h-9 sm:h-10"
+                />
+              </div>
+
+              {summary.length > 0 && (
+                <div className="grid grid-cols-2 gap-3 sm:gap-4 text-sm">
+                  {summary.map(item => (
+                    <div key={item.label}>
+                      <p className="text-muted-foreground mb-1 text-xs sm:text-sm">{item.label}</p>
+                      <Badge variant="outline" className="bg-gradient-glass text-xs">{item.value}</Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {advancedFields.length > 0 && (
+                <Collapsible>
+                  <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary group">
+                    <ChevronDown className="w-3 h-3 transition-transform group-data-[state=open]:rotate-180" />
+                    Advanced
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="space-y-3 pt-3">
+                    {advancedFields.map(field => renderField(field, true))}
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+            </div>
+          </Card>
+
+          {/* Deployment Status */}
+          {deployStatus !== 'idle' && (
+            <Card className="p-3 sm:p-4 bg-gradient-glass border-glass-border">
+              <div className="space-y-3">
+                <div className="flex items-center gap-3">
+                  {deployStatus === 'deploying' && (
+                    <>
+                      <div className="w-4 h-4 border-2 border-primary/20 border-t-primary rounded-full animate-spin" />
+                      <span className="text-sm sm:text-base">{status ? `${status}...` : 'Starting...'}</span>
+                    </>
+                  )}
+                  {deployStatus === 'success' && (
+                    <>
+                      <CheckCircle className="w-4 h-4 text-green-500" />
+                      <span className="text-green-500 text-sm sm:text-base">Deployment Successful!</span>
+                    </>
+                  )}
+                  {deployStatus === 'error' && (
+                    <>
+                      <AlertCircle className="w-4 h-4 text-red-500" />
+                      <span className="text-red-500 text-sm sm:text-base">Deployment Failed</span>
+                    </>
+                  )}
+                </div>
+
+                {errorMessage && (
+                  <p className="text-xs text-red-400 break-words whitespace-pre-wrap">{errorMessage}</p>
+                )}
+
+                {logs.length > 0 && (
+                  <div className="rounded-lg border border-glass-border bg-black/40">
+                    <div className="flex items-center gap-2 px-2 py-1 border-b border-glass-border text-xs text-muted-foreground">
+                      <Terminal className="w-3 h-3" />
+                      Deploy logs
+                    </div>
+                    <div ref={logsRef} className="max-h-48 overflow-y-auto py-1 font-mono text-xs">
+                      {logs.map((line, index) => (
+                        <pre
+                          key={index}
+                          className={cn("px-2 whitespace-pre-wrap break-words", line.level === 'error' && "text-red-400")}
+                        >
+                          {line.text}
+                        </pre>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {result?.detail && !result.url && (
+                  <p className="text-sm text-muted-foreground">{result.detail}</p>
+                )}
+
+                {result?.url && (
+                  <div className="p-3 bg-muted/20 rounded-lg">
+                    <p className="text-sm text-muted-foreground mb-2">🌐 Live URL:</p>
+                    <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2">
+                      <code className="flex-1 text-xs sm:text-sm bg-background/50 px-2 sm:px-3 py-2 rounded break-all min-w-0">
+                        {result.url}
+                      </code>
+                      <div className="flex gap-2 shrink-0">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => copyUrl(result.url)}
+                          className="h-8 w-8 sm:w-auto sm:px-2 p-0 sm:p-2"
+                        >
+                          <Copy className="w-3 h-3" />
+                          <span className="hidden sm:inline ml-1">Copy</span>
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => window.open(result.url, '_blank')}
+                          className="h-8 w-8 sm:w-auto sm:px-2 p-0 sm:p-2"
+                        >
+                          <ExternalLink className="w-3 h-3" />
+                          <span className="hidden sm:inline ml-1">Open</span>
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </Card>
+          )}
+
+          {/* Deploy Actions */}
+          <div className="space-y-3">
+            {isDeploying && (
+              <Button
+                variant="outline"
+                onClick={() => abortRef.current?.abort()}
+                className="w-full bg-gradient-glass border-glass-border text-sm h-9"
+              >
+                <Square className="w-3 h-3 mr-2" />
+                Stop following
+              </Button>
+            )}
+
+            <Button
+              onClick={handleDeploy}
+              disabled={isDeploying || !projectName.trim() || !selected || !isConfigured(target)}
+              className="w-full bg-gradient-primary hover:shadow-glow transition-all duration-300 h-10 sm:h-12 text-sm sm:text-base"
+            >
+              {isDeploying ? (
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 border-2 border-primary-foreground/20 border-t-primary-foreground rounded-full animate-spin" />
+                  <span>Deploying...</span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Rocket className="w-4 h-4" />
+                  <span>{target.id === 'zip' ? 'Build zip' : `Deploy to ${target.label}`}</span>
+                </div>
+              )}
+            </Button>
+
+            {target.dashboardUrl && (
+              <Button
+                variant="outline"
+                onClick={() => window.open(target.dashboardUrl, '_blank')}
+                className="w-full bg-gradient-glass border-glass-border hover:shadow-glow text-xs sm:text-sm h-9 sm:h-10"
+              >
+                <Globe className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                {target.label} Dashboard
+              </Button>
+            )}
+          </div>
+
+          {/* Deployment History */}
+          {history.length > 0 && (
+            <Card className="p-3 sm:p-4 bg-gradient-glass border-glass-border">
+              <div className="flex items-center gap-2 mb-3">
+                <History className="w-4 h-4 text-primary" />
+                <h3 className="font-semibold text-sm sm:text-base">Deployment History</h3>
+              </div>
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {history.map(entry => {
+                  const badge = statusBadge[entry.status];
+                  const entryTarget = getDeployTarget(entry.target);
+                  return (
+                    <div key={entry.id} className="p-2 rounded-lg bg-muted/20 space-y-1">
+                      <div className="flex items-center gap-2 text-xs">
+                        <Badge variant="outline" className={cn("text-xs", badge.className)}>{badge.label}</Badge>
+                        <span className="font-medium">{entryTarget.label}</span>
+                        <span className="text-muted-foreground">
+                          {entry.createdAt.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                        <code className="ml-auto text-muted-foreground" title={entry.revision ? `Revision ${entry.revision}` : 'File snapshot'}>
+                          {entry.hash}
+                        </code>
+                      </div>
+                      {(entry.url || entry.error || entry.detail) && (
+                        <p className={cn("text-xs break-all", entry.error ? "text-red-400" : "text-muted-foreground")}>
+                          {entry.url ? (
+                            <a href={entry.url} target="_blank" rel="noreferrer" className="hover:text-primary underline-offset-2 hover:underline">
+                              {entry.url}
+                            </a>
+                          ) : entry.error || entry.detail}
+                        </p>
+                      )}
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => redeploy(entry)}
+                          disabled={isDeploying || !isConfigured(entryTarget)}
+                          title={isConfigured(entryTarget) ? 'Publish these files again' : `Fill in the ${entryTarget.label} settings first`}
+                          className="h-7 px-2 text-xs bg-gradient-glass border-glass-border"
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Redeploy
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => restore(entry)}
+                          disabled={isDeploying}
+                          title="Replace the project's files with this snapshot"
+                          className="h-7 px-2 text-xs bg-gradient-glass border-glass-border"
+                        >
+                          <ArchiveRestore className="w-3 h-3 mr-1" />
+                          Restore files
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </Card>
+          )}
+
+          {/* Enhanced Info */}
+          <div className="text-center text-xs text-muted-foreground space-y-2 p-3 sm:p-4 bg-muted/10 rounded-lg">
+            <p className="font-medium text-xs sm:text-sm">🚀 Deploy your PandaNexus app</p>
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <p>▲ Vercel builds</p>
+              <p>🌍 Netlify CDN</p>
+              <p>🐙 GitHub Pages</p>
+              <p>📦 Static zip</p>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeployDialog;
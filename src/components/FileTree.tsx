@@ -0,0 +1,176 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown, ChevronRight, FileCode, FilePlus, Folder, FolderOpen, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { buildFileTree, type FileTreeNode } from "@/lib/projectFiles";
+import type { ProjectFile } from "@/types/project";
+
+interface FileTreeProps {
+  files: ProjectFile[];
+  activeFile: string | null;
+  onOpen: (name: string) => void;
+  // Return false to keep the name input open, e.g. when the name is invalid
+  onAdd: (name: string) => boolean;
+  onRename: (from: string, to: string) => boolean;
+  onDelete: (name: string) => void;
+}
+
+const FileTree = ({ files, activeFile, onOpen, onAdd, onRename, onDelete }: FileTreeProps) => {
+  const tree = useMemo(() => buildFileTree(files), [files]);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const toggleFolder = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const commitAdd = () => {
+    if (!draft.trim() || onAdd(draft)) {
+      setAdding(false);
+      setDraft("");
+    }
+  };
+
+  const commitRename = () => {
+    if (!renaming) return;
+    if (draft.trim() === renaming || onRename(renaming, draft)) {
+      setRenaming(null);
+      setDraft("");
+    }
+  };
+
+  const nameInput = (onCommit: () => void, onCancel: () => void) => (
+    <Input
+      autoFocus
+      value={draft}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={onCommit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') onCommit();
+        if (e.key === 'Escape') onCancel();
+      }}
+      placeholder="src/file.ts"
+      className="h-6 text-xs px-1 bg-input/50 border-glass-border"
+    />
+  );
+
+  const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => {
+    const indent = { paddingLeft: `${depth * 12 + 4}px` };
+
+    if (node.children) {
+      const isOpen = !collapsed.has(node.path);
+      return (
+        <div key={node.path}>
+          <button
+            type="button"
+            onClick={() => toggleFolder(node.path)}
+            style={indent}
+            className="w-full flex items-center gap-1 py-1 pr-1 text-xs rounded hover:bg-muted/30 text-left"
+          >
+            {isOpen ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+            {isOpen ? <FolderOpen className="w-3 h-3 text-primary shrink-0" /> : <Folder className="w-3 h-3 text-primary shrink-0" />}
+            <span className="truncate">{node.name}</span>
+          </button>
+          {isOpen && node.children.map(child => renderNode(child, depth + 1))}
+        </div>
+      );
+    }
+
+    if (renaming === node.path) {
+      return (
+        <div key={node.path} style={indent} className="py-0.5 pr-1">
+          {nameInput(commitRename, () => setRenaming(null))}
+        </div>
+      );
+    }
+
+    return (
+      <div
+        key={node.path}
+        style={indent}
+        className={cn(
+          "group flex items-center gap-1 pr-1 rounded text-xs hover:bg-muted/30",
+          activeFile === node.path && "bg-primary/15 text-primary"
+        )}
+      >
+        <button
+          type="button"
+          onClick={() => onOpen(node.path)}
+          onDoubleClick={() => {
+            setRenaming(node.path);
+            setDraft(node.path);
+          }}
+          className="flex-1 min-w-0 flex items-center gap-1 py-1 text-left"
+          title={node.path}
+        >
+          <FileCode className="w-3 h-3 shrink-0 ml-4" />
+          <span className="truncate">{node.name}</span>
+        </button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button type="button" className="opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 p-0.5 rounded hover:bg-muted/50">
+              <MoreHorizontal className="w-3 h-3" />
+              <span className="sr-only">File actions</span>
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-32">
+            <DropdownMenuItem onClick={() => {
+              setRenaming(node.path);
+              setDraft(node.path);
+            }}>
+              <Pencil className="w-3 h-3 mr-2" />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onDelete(node.path)} className="text-red-500 focus:text-red-500">
+              <Trash2 className="w-3 h-3 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex items-center justify-between px-2 py-1.5 border-b border-glass-border">
+        <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Files</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setAdding(true);
+            setDraft("");
+          }}
+          className="h-6 w-6 p-0"
+          title="New file"
+        >
+          <FilePlus className="w-3 h-3" />
+        </Button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-1 space-y-0.5">
+        {adding && <div className="px-1 pb-1">{nameInput(commitAdd, () => setAdding(false))}</div>}
+        {tree.map(node => renderNode(node, 0))}
+        {files.length === 0 && !adding && (
+          <p className="text-xs text-muted-foreground p-2">No files yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FileTree;
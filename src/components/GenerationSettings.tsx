@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { SlidersHorizontal, RotateCcw, Save, X } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import { cn } from "@/lib/utils";
+import { aiService } from "@/services/aiService";
+import { MAX_STOP_SEQUENCES, PARAM_LIMITS, generationPresets } from "@/services/generation";
+import { SERVICE_LABELS } from "@/services/models";
+import { useGenerationPresets } from "@/hooks/use-generation-presets";
+import type { GenerationParams, RoutedService, ServiceType } from "@/types/chat";
+
+type SliderParam = keyof typeof PARAM_LIMITS;
+
+const SLIDERS: { key: SliderParam; label: string; hint: string }[] = [
+  { key: 'temperature', label: 'Temperature', hint: 'Higher is more varied' },
+  { key: 'topP', label: 'Top P', hint: 'Sample from the most likely tokens covering this share' },
+  { key: 'maxTokens', label: 'Max tokens', hint: 'Longest reply allowed' },
+  { key: 'presencePenalty', label: 'Presence penalty', hint: 'Push towards new topics' },
+  { key: 'frequencyPenalty', label: 'Frequency penalty', hint: 'Discourage repeating words' },
+];
+
+const sameValue = (a: GenerationParams[keyof GenerationParams], b: GenerationParams[keyof GenerationParams]) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+interface GenerationSettingsProps {
+  service: ServiceType;
+  // The conversation's overrides; undefined follows the preset
+  params?: Partial<GenerationParams>;
+  onChange: (params: Partial<GenerationParams> | undefined) => void;
+  className?: string;
+}
+
+// Sampling parameters for a conversation, on top of its service's preset
+const GenerationSettings = ({ service, params, onChange, className }: GenerationSettingsProps) => {
+  const [stopInput, setStopInput] = useState("");
+  // Re-render when a preset changes
+  useGenerationPresets();
+
+  const presetService: RoutedService = service === 'auto' ? 'general' : service;
+  const preset = aiService.resolveParams(service);
+  const effective = aiService.resolveParams(service, params);
+  const overridden = Object.keys(params ?? {}).length > 0;
+
+  // Only keep values that differ from the preset, so preset edits still reach this conversation
+  const set = <K extends keyof GenerationParams>(key: K, value: GenerationParams[K]) => {
+    const { [key]: _previous, ...rest } = params ?? {};
+    const next = sameValue(value, preset[key]) ? rest : { ...rest, [key]: value };
+    onChange(Object.keys(next).length ? next : undefined);
+  };
+
+  const addStop = () => {
+    const sequence = stopInput.replace(/\\n/g, '\n');
+    if (!sequence || effective.stop.includes(sequence) || effective.stop.length >= MAX_STOP_SEQUENCES) return;
+    set('stop', [...effective.stop, sequence]);
+    setStopInput("");
+  };
+
+  const savePreset = async () => {
+    await generationPresets.setPreset(presetService, effective);
+    onChange(undefined);
+    toast.success("💾 Preset saved", {
+      description: `${SERVICE_LABELS[presetService]} replies use these settings unless a conversation overrides them`,
+      duration: 1500,
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className={cn("h-7 px-2 gap-1 bg-gradient-glass border-glass-border text-xs", overridden && "border-primary/50 text-primary", className)}
+          title="Generation parameters"
+        >
+          <SlidersHorizontal className="w-3 h-3" />
+          <span>{effective.temperature.toFixed(2)}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 bg-gradient-glass backdrop-blur-xl border-glass-border space-y-4">
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-primary" />
+          <h3 className="font-semibold text-sm">Parameters</h3>
+          <Badge variant="outline" className="ml-auto text-xs">
+            {overridden ? 'This conversation' : `${SERVICE_LABELS[presetService]} preset`}
+          </Badge>
+        </div>
+        {service === 'auto' && (
+          <p className="text-xs text-muted-foreground">Auto uses the preset of the service it picks. Changes here apply to every reply in this conversation.</p>
+        )}
+
+        {SLIDERS.map(({ key, label, hint }) => (
+          <div key={key} className="space-y-2" title={hint}>
+            <div className="flex items-center justify-between text-xs">
+              <Label className={cn("text-xs", params?.[key] !== undefined && "text-primary")}>{label}</Label>
+              <span className="font-mono text-muted-foreground">{effective[key]}</span>
+            </div>
+            <Slider
+              value={[effective[key]]}
+              onValueChange={([value]) => set(key, Number(value.toFixed(2)))}
+              {...PARAM_LIMITS[key]}
+            />
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <Label className={cn("text-xs", params?.stop !== undefined && "text-primary")}>Stop sequences</Label>
+          {effective.stop.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {effective.stop.map(sequence => (
+                <Badge key={sequence} variant="secondary" className="text-xs font-mono gap-1">
+                  {JSON.stringify(sequence).slice(1, -1)}
+                  <button type="button" onClick={() => set('stop', effective.stop.filter(s => s !== sequence))} aria-label="Remove stop sequence">
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          <Input
+            value={stopInput}
+            onChange={(e) => setStopInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addStop();
+              }
+            }}
+            disabled={effective.stop.length >= MAX_STOP_SEQUENCES}
+            placeholder={effective.stop.length >= MAX_STOP_SEQUENCES ? `Up to ${MAX_STOP_SEQUENCES}` : 'Type and press Enter (\\n for newline)'}
+            className="h-8 bg-input/50 border-glass-border text-xs font-mono"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="generation-seed" className={cn("text-xs", params?.seed !== undefined && "text-primary")}>Seed</Label>
+          <Input
+            id="generation-seed"
+            type="number"
+            value={effective.seed ?? ''}
+            onChange={(e) => set('seed', e.target.value === '' ? undefined : Math.trunc(Number(e.target.value)))}
+            placeholder="Random"
+            className="h-8 bg-input/50 border-glass-border text-xs font-mono"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2 pt-1">
+          <Button size="sm" variant="outline" onClick={savePreset} className="h-8 text-xs bg-gradient-glass border-glass-border">
+            <Save className="w-3 h-3 mr-1" />
+            Save as {SERVICE_LABELS[presetService]} preset
+          </Button>
+          {overridden && (
+            <Button size="sm" variant="ghost" onClick={() => onChange(undefined)} className="h-8 text-xs">
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Use preset
+            </Button>
+          )}
+          {!overridden && generationPresets.isCustom(presetService) && (
+            <Button size="sm" variant="ghost" onClick={() => generationPresets.resetPreset(presetService)} className="h-8 text-xs">
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Built-in preset
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default GenerationSettings;
@@ -0,0 +1,78 @@
+import { Children, isValidElement, memo, type ReactElement, type ReactNode } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { cn } from "@/lib/utils";
+import { prepareMarkdown } from "@/lib/markdown";
+import CodeBlock from "./CodeBlock";
+
+interface MarkdownContentProps {
+  content: string;
+  isUser?: boolean;
+  streaming?: boolean;
+  className?: string;
+}
+
+const codeText = (children: ReactNode): { language?: string; code: string } => {
+  const child = Children.toArray(children)[0];
+  if (!isValidElement(child)) return { code: String(children ?? '') };
+
+  const { className, children: codeChildren } = (child as ReactElement<{ className?: string; children?: ReactNode }>).props;
+  return {
+    language: className?.match(/language-([\w+#.-]+)/)?.[1],
+    code: String(codeChildren ?? '').replace(/\n$/, '')
+  };
+};
+
+const buildComponents = (isUser: boolean): Components => ({
+  h1: ({ children }) => <h1 className="font-bold text-primary text-lg md:text-xl mt-3 mb-2 first:mt-0">{children}</h1>,
+  h2: ({ children }) => <h2 className="font-bold text-primary text-base md:text-lg mt-3 mb-2 first:mt-0">{children}</h2>,
+  h3: ({ children }) => <h3 className="font-semibold text-primary text-sm md:text-base mt-2 mb-1 first:mt-0">{children}</h3>,
+  h4: ({ children }) => <h4 className="font-semibold mt-2 mb-1">{children}</h4>,
+  p: ({ children }) => <p className="mb-2 last:mb-0 break-words leading-relaxed">{children}</p>,
+  strong: ({ children }) => <strong className={cn("font-bold", !isUser && "text-primary")}>{children}</strong>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:opacity-80 break-all">
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="list-disc ml-5 mb-2 space-y-1 marker:text-primary">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal ml-5 mb-2 space-y-1 marker:text-primary">{children}</ol>,
+  li: ({ children }) => <li className="break-words">{children}</li>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-2 border-primary/50 pl-3 my-2 italic opacity-90">{children}</blockquote>
+  ),
+  hr: () => <hr className="my-3 border-glass-border" />,
+  table: ({ children }) => (
+    <div className="overflow-x-auto my-2">
+      <table className="w-full text-xs sm:text-sm border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => <th style={style} className="border border-glass-border px-2 py-1 text-left font-semibold bg-muted/20">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="border border-glass-border px-2 py-1 align-top">{children}</td>,
+  code: ({ children }) => (
+    <code className={cn("font-mono text-[0.85em] px-1 py-0.5 rounded", isUser ? "bg-black/20" : "bg-muted/30")}>
+      {children}
+    </code>
+  ),
+  pre: ({ children }) => {
+    const { language, code } = codeText(children);
+    return <CodeBlock code={code} language={language} isUser={isUser} />;
+  },
+});
+
+const userComponents = buildComponents(true);
+const assistantComponents = buildComponents(false);
+
+// CommonMark + GFM renderer shared by finished and streaming messages
+const MarkdownContent = ({ content, isUser = false, streaming = false, className }: MarkdownContentProps) => (
+  <div className={cn("text-sm md:text-base leading-relaxed", className)}>
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      components={isUser ? userComponents : assistantComponents}
+    >
+      {prepareMarkdown(content, streaming)}
+    </ReactMarkdown>
+  </div>
+);
+
+export default memo(MarkdownContent);
@@ -0,0 +1,63 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Brain, Eye } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { aiService } from "@/services/aiService";
+import { formatContext, formatPricing, modelLabel, modelsFor } from "@/services/models";
+import { useModelRoutes } from "@/hooks/use-model-routes";
+import type { ServiceType } from "@/types/chat";
+
+const ROUTED = 'routed';
+
+// The active provider's catalog as select items, plus `extra` when it isn't in the catalog
+export const ModelSelectItems = ({ extra }: { extra?: string }) => {
+  const models = modelsFor(aiService.getProviderConfig().id);
+  return (
+    <>
+      {extra && !models.some(m => m.id === extra) && (
+        <SelectItem value={extra} className="text-xs">{extra}</SelectItem>
+      )}
+      {models.map(model => (
+        <SelectItem key={model.id} value={model.id} className="text-xs">
+          <span className="flex items-center gap-2">
+            <span className="font-medium">{model.name}</span>
+            <span className="text-muted-foreground">{formatContext(model.contextWindow)} · {formatPricing(model.pricing)}</span>
+            {model.vision && <Eye className="w-3 h-3 text-muted-foreground" />}
+          </span>
+        </SelectItem>
+      ))}
+    </>
+  );
+};
+
+interface ModelPickerProps {
+  service: ServiceType;
+  // Empty for the model routed to the service
+  value: string;
+  onChange: (model: string) => void;
+  className?: string;
+}
+
+// Per-message model override next to the input
+const ModelPicker = ({ service, value, onChange, className }: ModelPickerProps) => {
+  // Re-render when the routing table changes
+  useModelRoutes();
+  const routed = aiService.resolveModel(service);
+
+  return (
+    <Select value={value || ROUTED} onValueChange={(next) => onChange(next === ROUTED ? '' : next)}>
+      <SelectTrigger
+        className={cn("h-7 w-auto max-w-[14rem] gap-1 bg-gradient-glass border-glass-border text-xs px-2", value && "border-primary/50 text-primary", className)}
+        title="Model for the next message"
+      >
+        <Brain className="w-3 h-3 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ROUTED} className="text-xs">Routed · {modelLabel(routed)}</SelectItem>
+        <ModelSelectItems />
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default ModelPicker;
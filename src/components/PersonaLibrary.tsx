@@ -0,0 +1,257 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UserCog, Plus, Copy, Trash2, Upload, Download, Save } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import { cn } from "@/lib/utils";
+import { downloadText } from "@/lib/download";
+import { PROMPT_VARIABLES, personaLibrary, promptVariables, renderPrompt, type Persona } from "@/services/personas";
+import { SERVICE_LABELS } from "@/services/models";
+import { usePersonas } from "@/hooks/use-personas";
+import type { RoutedService } from "@/types/chat";
+
+const ROUTED_SERVICES: RoutedService[] = ['code', 'creative', 'knowledge', 'general'];
+
+const newPersonaId = () => `persona-${Date.now().toString(36)}`;
+
+// Name, description and prompt of one persona; built-ins are read-only
+const PersonaEditor = ({ persona, onSaved }: { persona: Persona; onSaved: (id: string) => void }) => {
+  const [draft, setDraft] = useState(persona);
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+  const dirty = draft.name !== persona.name || draft.description !== persona.description || draft.prompt !== persona.prompt;
+
+  const insertVariable = (name: string) => {
+    const textarea = promptRef.current;
+    const at = textarea?.selectionStart ?? draft.prompt.length;
+    const token = `{{${name}}}`;
+    setDraft(d => ({ ...d, prompt: d.prompt.slice(0, at) + token + d.prompt.slice(at) }));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(at + token.length, at + token.length);
+    });
+  };
+
+  const save = async () => {
+    if (!draft.name.trim() || !draft.prompt.trim()) {
+      toast.error("A persona needs a name and a prompt");
+      return;
+    }
+    await personaLibrary.savePersona({ ...draft, name: draft.name.trim() });
+    onSaved(draft.id);
+    toast.success(`💾 Saved ${draft.name.trim()}`, { duration: 1500 });
+  };
+
+  const duplicate = async () => {
+    const copy: Persona = { id: newPersonaId(), name: `${persona.name} (copy)`, description: persona.description, prompt: persona.prompt };
+    await personaLibrary.savePersona(copy);
+    onSaved(copy.id);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor="persona-name" className="text-xs">Name</Label>
+        <Input
+          id="persona-name"
+          value={draft.name}
+          disabled={persona.builtIn}
+          onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+          className="h-8 bg-input/50 border-glass-border text-sm"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="persona-description" className="text-xs">Description</Label>
+        <Input
+          id="persona-description"
+          value={draft.description}
+          disabled={persona.builtIn}
+          onChange={(e) => setDraft(d => ({ ...d, description: e.target.value }))}
+          className="h-8 bg-input/50 border-glass-border text-sm"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="persona-prompt" className="text-xs">System prompt</Label>
+        <Textarea
+          id="persona-prompt"
+          ref={promptRef}
+          value={draft.prompt}
+          disabled={persona.builtIn}
+          onChange={(e) => setDraft(d => ({ ...d, prompt: e.target.value }))}
+          rows={7}
+          className="bg-input/50 border-glass-border text-xs font-mono"
+        />
+        {!persona.builtIn && (
+          <div className="flex flex-wrap gap-1">
+            {PROMPT_VARIABLES.map(v => (
+              <Badge
+                key={v.name}
+                variant="outline"
+                onClick={() => insertVariable(v.name)}
+                className="cursor-pointer text-xs font-mono hover:border-primary/50"
+                title={`${v.description}. Write {{${v.name}|fallback}} for a value when it's unset.`}
+              >
+                {`{{${v.name}}}`}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Preview</Label>
+        <p className="text-xs text-muted-foreground whitespace-pre-wrap rounded-md border border-glass-border p-2 max-h-24 overflow-y-auto">
+          {renderPrompt(draft.prompt, promptVariables())}
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {!persona.builtIn && (
+          <Button size="sm" onClick={save} disabled={!dirty} className="h-8 text-xs bg-gradient-primary">
+            <Save className="w-3 h-3 mr-1" />
+            Save
+          </Button>
+        )}
+        <Button size="sm" variant="outline" onClick={duplicate} className="h-8 text-xs bg-gradient-glass border-glass-border">
+          <Copy className="w-3 h-3 mr-1" />
+          Duplicate
+        </Button>
+        {!persona.builtIn && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => personaLibrary.removePersona(persona.id)}
+            className="h-8 text-xs text-destructive hover:text-destructive ml-auto"
+          >
+            <Trash2 className="w-3 h-3 mr-1" />
+            Delete
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface PersonaLibraryProps {
+  children: React.ReactNode;
+}
+
+// Create, edit, import and export personas, and pick each service's default
+const PersonaLibrary = ({ children }: PersonaLibraryProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string>();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const library = usePersonas();
+
+  const personas = personaLibrary.all();
+  const selected = personaLibrary.get(selectedId) ?? personas[0];
+
+  const create = async () => {
+    const persona: Persona = { id: newPersonaId(), name: 'New persona', description: '', prompt: 'You are a helpful assistant. Today is {{date}}.' };
+    await personaLibrary.savePersona(persona);
+    setSelectedId(persona.id);
+  };
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const count = await personaLibrary.importJson(await file.text());
+      toast.success(`📥 Imported ${count} persona${count === 1 ? '' : 's'}`, { duration: 1500 });
+    } catch (error) {
+      toast.error("Couldn't import personas", { description: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="w-[95vw] max-w-2xl bg-gradient-glass backdrop-blur-xl border-glass-border shadow-glass max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg sm:text-xl font-bold bg-gradient-text bg-clip-text text-transparent text-center flex items-center justify-center gap-2">
+            <UserCog className="w-5 h-5 sm:w-6 sm:h-6" />
+            Personas
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <Card className="p-3 sm:p-4 bg-gradient-glass border-glass-border space-y-2">
+            <h3 className="font-semibold text-sm">Service defaults</h3>
+            <p className="text-xs text-muted-foreground">Used when a conversation doesn't pick a persona. Auto uses the default of the service it routes to.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {ROUTED_SERVICES.map(service => (
+                <div key={service} className="flex items-center gap-2">
+                  <span className="w-20 text-sm shrink-0">{SERVICE_LABELS[service]}</span>
+                  <Select value={personaLibrary.defaultFor(service).id} onValueChange={(id) => personaLibrary.setDefault(service, id)}>
+                    <SelectTrigger className="bg-input/50 border-glass-border text-xs h-8 min-w-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {personas.map(p => (
+                        <SelectItem key={p.id} value={p.id} className="text-xs">{p.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          <div className="grid grid-cols-1 sm:grid-cols-[12rem_1fr] gap-3">
+            <div className="space-y-1">
+              {personas.map(p => (
+                <button
+                  key={p.id}
+                  type="button"
+                  onClick={() => setSelectedId(p.id)}
+                  className={cn(
+                    "w-full text-left rounded-md px-2 py-1.5 text-sm border border-transparent hover:bg-accent/50",
+                    p.id === selected.id && "border-primary/50 bg-accent/30"
+                  )}
+                >
+                  <span className="flex items-center gap-1">
+                    <span className="truncate font-medium">{p.name}</span>
+                    {p.builtIn && <Badge variant="outline" className="ml-auto text-[10px] px-1">Built-in</Badge>}
+                  </span>
+                  {p.description && <span className="block truncate text-xs text-muted-foreground">{p.description}</span>}
+                </button>
+              ))}
+              <div className="flex flex-wrap gap-1 pt-2">
+                <Button size="sm" variant="outline" onClick={create} className="h-7 px-2 text-xs bg-gradient-glass border-glass-border">
+                  <Plus className="w-3 h-3 mr-1" />
+                  New
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => fileInputRef.current?.click()} className="h-7 px-2 text-xs" title="Import personas from JSON">
+                  <Upload className="w-3 h-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={library.personas.length === 0}
+                  onClick={() => downloadText(personaLibrary.exportJson(), 'pandanexus-personas.json')}
+                  className="h-7 px-2 text-xs"
+                  title="Export your personas as JSON"
+                >
+                  <Download className="w-3 h-3" />
+                </Button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={importFile} className="hidden" />
+              </div>
+            </div>
+
+            <Card className="p-3 sm:p-4 bg-gradient-glass border-glass-border">
+              <PersonaEditor key={selected.id} persona={selected} onSaved={setSelectedId} />
+            </Card>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PersonaLibrary;
@@ -0,0 +1,60 @@
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { UserCog } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { personaLibrary } from "@/services/personas";
+import { usePersonas } from "@/hooks/use-personas";
+import PersonaLibrary from "./PersonaLibrary";
+import type { ServiceType } from "@/types/chat";
+
+const SERVICE_DEFAULT = 'default';
+
+interface PersonaPickerProps {
+  service: ServiceType;
+  // Empty for the service's default persona
+  value?: string;
+  onChange: (personaId: string | undefined) => void;
+  className?: string;
+}
+
+// The conversation's persona, with a shortcut to the library
+const PersonaPicker = ({ service, value, onChange, className }: PersonaPickerProps) => {
+  // Re-render when personas or defaults change
+  usePersonas();
+  const chosen = personaLibrary.get(value);
+  const fallback = service === 'auto' ? 'Service default' : `Default · ${personaLibrary.defaultFor(service).name}`;
+
+  return (
+    <div className={cn("flex items-center", className)}>
+      <Select value={chosen ? chosen.id : SERVICE_DEFAULT} onValueChange={(next) => onChange(next === SERVICE_DEFAULT ? undefined : next)}>
+        <SelectTrigger
+          className={cn("h-7 w-auto max-w-[12rem] gap-1 rounded-r-none bg-gradient-glass border-glass-border text-xs px-2", chosen && "border-primary/50 text-primary")}
+          title="Persona for this conversation"
+        >
+          <UserCog className="w-3 h-3 shrink-0" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={SERVICE_DEFAULT} className="text-xs">{fallback}</SelectItem>
+          <SelectSeparator />
+          {personaLibrary.all().map(persona => (
+            <SelectItem key={persona.id} value={persona.id} className="text-xs">{persona.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <PersonaLibrary>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 px-2 rounded-l-none border-l-0 bg-gradient-glass border-glass-border text-xs"
+          title="Manage personas"
+        >
+          Edit
+        </Button>
+      </PersonaLibrary>
+    </div>
+  );
+};
+
+export default PersonaPicker;
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Eye, Loader2, Monitor, RotateCw, Smartphone, Tablet } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { buildPreview } from "@/lib/preview";
+import { MOBILE_BREAKPOINT, useIsMobile } from "@/hooks/use-mobile";
+import type { ProjectFile } from "@/types/project";
+
+type Device = 'desktop' | 'tablet' | 'mobile';
+
+// Tablet width is the app's own mobile breakpoint: the widest viewport still laid out as mobile
+const devices: { value: Device; label: string; icon: typeof Monitor; width?: number }[] = [
+  { value: 'desktop', label: 'Desktop', icon: Monitor },
+  { value: 'tablet', label: 'Tablet', icon: Tablet, width: MOBILE_BREAKPOINT },
+  { value: 'mobile', label: 'Mobile', icon: Smartphone, width: 375 },
+];
+
+const REBUILD_DELAY_MS = 300;
+
+interface PreviewPaneProps {
+  files: ProjectFile[];
+  className?: string;
+}
+
+// Live preview of HTML/CSS/React files, rebuilt shortly after every edit
+const PreviewPane = ({ files, className }: PreviewPaneProps) => {
+  const isMobile = useIsMobile();
+  const [device, setDevice] = useState<Device | null>(null);
+  const [html, setHtml] = useState("");
+  const [errorCount, setErrorCount] = useState(0);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const activeDevice = device ?? (isMobile ? 'mobile' : 'desktop');
+  const width = devices.find(d => d.value === activeDevice)?.width;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsBuilding(true);
+
+    const timer = setTimeout(() => {
+      buildPreview(files)
+        .then(build => {
+          if (cancelled) return;
+          setHtml(build.html);
+          setErrorCount(build.errors.length);
+        })
+        .catch(error => {
+          console.error('Preview build failed:', error);
+          if (!cancelled) setErrorCount(1);
+        })
+        .finally(() => {
+          if (!cancelled) setIsBuilding(false);
+        });
+    }, REBUILD_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [files]);
+
+  return (
+    <div className={cn("flex flex-col h-full min-h-0 rounded-lg border border-glass-border bg-gradient-glass overflow-hidden", className)}>
+      <div className="flex items-center justify-between gap-2 px-2 py-1.5 border-b border-glass-border bg-muted/20">
+        <div className="flex items-center gap-2 min-w-0">
+          <Eye className="w-3 h-3 text-primary shrink-0" />
+          <span className="text-xs font-medium">Preview</span>
+          {isBuilding && <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />}
+          {errorCount > 0 && (
+            <Badge variant="outline" className="text-xs text-red-500 border-red-500/40">
+              {errorCount} build {errorCount === 1 ? 'error' : 'errors'}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {devices.map(({ value, label, icon: Icon }) => (
+            <Button
+              key={value}
+              size="sm"
+              variant="ghost"
+              onClick={() => setDevice(value)}
+              className={cn("h-6 w-6 p-0", activeDevice === value && "bg-primary/15 text-primary")}
+              title={label}
+            >
+              <Icon className="w-3 h-3" />
+            </Button>
+          ))}
+          <Button size="sm" variant="ghost" onClick={() => setReloadKey(key => key + 1)} className="h-6 w-6 p-0" title="Reload">
+            <RotateCw className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto bg-muted/10 flex justify-center">
+        <iframe
+          key={reloadKey}
+          title="Project preview"
+          srcDoc={html}
+          // No allow-same-origin: previewed code cannot reach the app's storage
+          sandbox="allow-scripts allow-forms allow-modals allow-popups"
+          style={width ? { width } : undefined}
+          className={cn("h-full bg-white border-0 shrink-0", width ? "border-x border-glass-border" : "w-full")}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PreviewPane;
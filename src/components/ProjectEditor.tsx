@@ -0,0 +1,122 @@
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { FileCode } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import FileTree from "./FileTree";
+import { findLanguage } from "@/lib/languages";
+import {
+  addFile,
+  deleteFile,
+  normalizePath,
+  renameFile,
+  updateFileContent,
+  upsertFiles,
+  validateFileName,
+} from "@/lib/projectFiles";
+import type { Project } from "@/types/project";
+
+interface ProjectEditorProps {
+  project: Project;
+  activeFile: string | null;
+  onOpenFile: (name: string | null) => void;
+  onUpdateProject: (update: (project: Project) => Project) => void;
+}
+
+const ProjectEditor = ({ project, activeFile, onOpenFile, onUpdateProject }: ProjectEditorProps) => {
+  const file = project.files.find(f => f.name === activeFile);
+
+  const handleAdd = (name: string) => {
+    const error = validateFileName(project, name);
+    if (error) {
+      toast.error(error);
+      return false;
+    }
+    onUpdateProject(p => addFile(p, name));
+    onOpenFile(normalizePath(name));
+    return true;
+  };
+
+  const handleRename = (from: string, to: string) => {
+    const error = validateFileName(project, to, from);
+    if (error) {
+      toast.error(error);
+      return false;
+    }
+    onUpdateProject(p => renameFile(p, from, to));
+    if (activeFile === from) onOpenFile(normalizePath(to));
+    return true;
+  };
+
+  const handleDelete = (name: string) => {
+    const removed = project.files.find(f => f.name === name);
+    onUpdateProject(p => deleteFile(p, name));
+    if (activeFile === name) onOpenFile(null);
+
+    toast.success(`🗑️ Deleted ${name}`, {
+      duration: 4000,
+      action: removed ? { label: 'Undo', onClick: () => onUpdateProject(p => upsertFiles(p, [removed])) } : undefined,
+    });
+  };
+
+  // Keep Tab inside the editor instead of moving focus
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || !file) return;
+    e.preventDefault();
+    const target = e.currentTarget;
+    const { selectionStart, selectionEnd, value } = target;
+    const next = `${value.slice(0, selectionStart)}  ${value.slice(selectionEnd)}`;
+    onUpdateProject(p => updateFileContent(p, file.name, next));
+    requestAnimationFrame(() => {
+      target.selectionStart = target.selectionEnd = selectionStart + 2;
+    });
+  };
+
+  return (
+    <ResizablePanelGroup direction="horizontal" className="rounded-lg border border-glass-border bg-gradient-glass">
+      <ResizablePanel defaultSize={28} minSize={15}>
+        <FileTree
+          files={project.files}
+          activeFile={activeFile}
+          onOpen={onOpenFile}
+          onAdd={handleAdd}
+          onRename={handleRename}
+          onDelete={handleDelete}
+        />
+      </ResizablePanel>
+      <ResizableHandle withHandle />
+      <ResizablePanel defaultSize={72} minSize={30}>
+        {file ? (
+          <div className="flex flex-col h-full min-h-0">
+            <div className="flex items-center gap-2 px-2 py-1.5 border-b border-glass-border bg-muted/20">
+              <FileCode className="w-3 h-3 text-primary shrink-0" />
+              <span className="text-xs font-medium truncate">{file.name}</span>
+              <Badge variant="secondary" className="text-xs shrink-0">
+                {findLanguage(file.language)?.label || file.language}
+              </Badge>
+              <span className="text-xs text-muted-foreground ml-auto shrink-0">
+                {file.content.split('\n').length} lines
+              </span>
+            </div>
+            <Textarea
+              value={file.content}
+              onChange={e => {
+                const content = e.target.value;
+                onUpdateProject(p => updateFileContent(p, file.name, content));
+              }}
+              onKeyDown={handleKeyDown}
+              spellCheck={false}
+              className="flex-1 min-h-0 resize-none rounded-none border-0 bg-muted/10 font-mono text-xs sm:text-sm leading-relaxed focus-visible:ring-0 focus-visible:ring-offset-0"
+            />
+          </div>
+        ) : (
+          <div className="h-full flex items-center justify-center text-xs text-muted-foreground p-4 text-center">
+            Select a file to edit, or add one from the file tree
+          </div>
+        )}
+      </ResizablePanel>
+    </ResizablePanelGroup>
+  );
+};
+
+export default ProjectEditor;
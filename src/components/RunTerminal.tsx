@@ -0,0 +1,94 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Play, Square, Terminal, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { OutputLevel, RunStatus } from "@/lib/sandbox";
+import type { CodeRunState } from "@/hooks/use-code-runner";
+
+interface RunTerminalProps {
+  run: CodeRunState;
+  onRerun: () => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const levelClass: Record<OutputLevel, string> = {
+  log: "text-foreground",
+  info: "text-blue-400",
+  debug: "text-muted-foreground",
+  warn: "text-yellow-400 bg-yellow-500/5",
+  error: "text-red-400 bg-red-500/5",
+  system: "text-muted-foreground italic",
+};
+
+const statusLabel: Record<RunStatus, string> = {
+  running: "Running",
+  success: "Finished",
+  error: "Failed",
+  timeout: "Timed out",
+  stopped: "Stopped",
+};
+
+// Console output of a sandboxed run, shown under the code card
+const RunTerminal = ({ run, onRerun, onStop, onClose }: RunTerminalProps) => {
+  const outputRef = useRef<HTMLDivElement>(null);
+  const isRunning = run.status === 'running';
+
+  useEffect(() => {
+    // Follow new output without scrolling the surrounding chat
+    const output = outputRef.current;
+    if (output) output.scrollTop = output.scrollHeight;
+  }, [run.output.length]);
+
+  return (
+    <div className="border-t border-glass-border bg-black/40">
+      <div className="flex items-center justify-between gap-2 px-2 sm:px-3 py-1.5 border-b border-glass-border">
+        <div className="flex items-center gap-2 min-w-0">
+          <Terminal className="w-3 h-3 text-primary shrink-0" />
+          <span className="text-xs font-medium truncate">{run.file.name}</span>
+          <Badge
+            variant="outline"
+            className={cn(
+              "text-xs shrink-0",
+              run.status === 'success' && "text-green-500 border-green-500/40",
+              (run.status === 'error' || run.status === 'timeout') && "text-red-500 border-red-500/40"
+            )}
+          >
+            {isRunning && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+            {statusLabel[run.status]}
+            {run.durationMs !== undefined && ` · ${run.durationMs}ms`}
+          </Badge>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          {isRunning ? (
+            <Button size="sm" variant="ghost" onClick={onStop} className="h-6 w-6 p-0" title="Stop">
+              <Square className="w-3 h-3" />
+            </Button>
+          ) : (
+            <Button size="sm" variant="ghost" onClick={onRerun} className="h-6 w-6 p-0" title="Run again">
+              <Play className="w-3 h-3" />
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" onClick={onClose} className="h-6 w-6 p-0" title="Close terminal">
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+      <div ref={outputRef} className="max-h-60 overflow-y-auto font-mono text-xs py-1">
+        {run.output.map((line, index) => (
+          <pre key={index} className={cn("px-3 py-0.5 whitespace-pre-wrap break-words", levelClass[line.level])}>
+            {line.text || ' '}
+          </pre>
+        ))}
+        {run.output.length === 0 && (
+          <p className="px-3 py-0.5 text-muted-foreground italic">
+            {isRunning ? 'Waiting for output...' : 'No output'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RunTerminal;
@@ -2,8 +2,7 @@ import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { Zap, Code, Palette, BookOpen, MessageCircle } from "lucide-react";
-
-type ServiceType = 'auto' | 'code' | 'creative' | 'knowledge' | 'general';
+import type { ServiceType } from "@/types/chat";
 
 interface ServiceSelectorProps {
   selectedService: ServiceType;
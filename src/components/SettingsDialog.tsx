@@ -0,0 +1,460 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Settings, KeyRound, Lock, Unlock, ShieldCheck, ExternalLink, ChevronDown, Trash2, Loader2, Brain, RotateCcw, Compass, Download, Undo2 } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import { cn } from "@/lib/utils";
+import { aiService } from "@/services/aiService";
+import { keyVault, MIN_PASSPHRASE_LENGTH } from "@/services/keyVault";
+import { PROVIDER_KEYS, resolveProviderConfig, validateApiKey, type ProviderId } from "@/services/providers";
+import { SERVICE_LABELS, modelLabel, modelRouter, modelsFor } from "@/services/models";
+import { MAX_RETRIES, resilience } from "@/services/resilience";
+import { clearRoutingCorrections, loadRoutingCorrections, type RoutingCorrection } from "@/services/classifier";
+import { downloadText } from "@/lib/download";
+import { useKeyVault } from "@/hooks/use-key-vault";
+import { useModelRoutes } from "@/hooks/use-model-routes";
+import { useResilience } from "@/hooks/use-resilience";
+import { ModelSelectItems } from "./ModelPicker";
+import type { ServiceType } from "@/types/chat";
+
+interface SettingsDialogProps {
+  children: React.ReactNode;
+}
+
+const providerIds = Object.keys(PROVIDER_KEYS) as ProviderId[];
+
+const maskKey = (key: string) => `••••${key.slice(-4)}`;
+
+// Create or unlock the vault; shown until the keys are readable
+const VaultGate = ({ creating }: { creating: boolean }) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    if (creating && passphrase !== confirmation) {
+      setError("Passphrases don't match");
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      if (creating) {
+        await keyVault.create(passphrase);
+        toast.success("🔐 Key vault created");
+      } else if (!(await keyVault.unlock(passphrase))) {
+        setError("Wrong passphrase");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const reset = async () => {
+    const previous = await keyVault.reset();
+    toast.success("🗑️ Saved keys forgotten", {
+      duration: 6000,
+      action: previous ? { label: 'Undo', onClick: () => keyVault.restore(previous) } : undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {creating
+          ? "Choose a passphrase to encrypt your API keys. They are stored in this browser only, and the passphrase is never saved."
+          : "Your API keys are encrypted. Enter your passphrase to use them in this session."}
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="vaultPassphrase" className="text-sm">Passphrase</Label>
+        <Input
+          id="vaultPassphrase"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder={creating ? `At least ${MIN_PASSPHRASE_LENGTH} characters` : "Your passphrase"}
+          autoComplete={creating ? "new-password" : "current-password"}
+          autoFocus
+          className="bg-input/50 border-glass-border text-sm h-9"
+        />
+      </div>
+      {creating && (
+        <div className="space-y-2">
+          <Label htmlFor="vaultConfirm" className="text-sm">Confirm passphrase</Label>
+          <Input
+            id="vaultConfirm"
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoComplete="new-password"
+            className="bg-input/50 border-glass-border text-sm h-9"
+          />
+        </div>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <Button type="submit" disabled={isBusy || !passphrase} className="w-full bg-gradient-primary hover:shadow-glow h-9 text-sm">
+        {isBusy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : creating ? <ShieldCheck className="w-4 h-4 mr-2" /> : <Unlock className="w-4 h-4 mr-2" />}
+        {creating ? "Create vault" : "Unlock"}
+      </Button>
+      {!creating && (
+        <button type="button" onClick={reset} className="w-full text-xs text-muted-foreground hover:text-red-400">
+          Forgot the passphrase? Forget saved keys
+        </button>
+      )}
+    </form>
+  );
+};
+
+// One provider's key: status, validation and save/remove
+const ProviderKeyRow = ({ id, configured }: { id: ProviderId; configured: boolean }) => {
+  const info = PROVIDER_KEYS[id];
+  const active = aiService.getProviderConfig().id === id;
+  const [value, setValue] = useState("");
+  const [isChecking, setIsChecking] = useState(false);
+  const [check, setCheck] = useState<{ ok: boolean; message: string } | null>(null);
+
+  if (!info) return null;
+  const stored = keyVault.getKey(id);
+
+  const save = async () => {
+    setIsChecking(true);
+    setCheck(null);
+    const config = active ? aiService.getProviderConfig() : resolveProviderConfig({ id });
+    try {
+      const result = await validateApiKey(config, value);
+      setCheck(result);
+      if (!result.ok) return;
+      await keyVault.setKey(id, value);
+      setValue("");
+      toast.success(`🔑 ${info.label} key saved`);
+    } catch (error) {
+      setCheck({ ok: false, message: `Could not reach ${info.label}: ${error instanceof Error ? error.message : String(error)}` });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const remove = async () => {
+    await keyVault.removeKey(id);
+    setCheck(null);
+    toast.success(`🗑️ ${info.label} key removed`);
+  };
+
+  return (
+    <div className="space-y-2 p-3 rounded-lg bg-muted/20">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium">{info.label}</span>
+        {active && <Badge variant="outline" className="text-xs">Active</Badge>}
+        <Badge
+          variant="outline"
+          className={cn("ml-auto text-xs", configured ? "text-green-500 border-green-500/40" : "text-muted-foreground")}
+        >
+          {configured && stored ? maskKey(stored) : "No key"}
+        </Badge>
+        {configured && (
+          <Button size="sm" variant="ghost" onClick={remove} className="h-6 w-6 p-0" title="Remove key">
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          type="password"
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setCheck(null);
+          }}
+          placeholder={configured ? "Replace key" : "Paste your key"}
+          autoComplete="off"
+          className="bg-input/50 border-glass-border text-xs h-8"
+        />
+        <Button size="sm" onClick={save} disabled={isChecking || !value.trim()} className="h-8 px-3 text-xs shrink-0">
+          {isChecking ? <Loader2 className="w-3 h-3 animate-spin" /> : "Verify & save"}
+        </Button>
+      </div>
+      <div className="flex items-center justify-between gap-2 text-xs">
+        {check ? (
+          <span className={check.ok ? "text-green-500" : "text-red-400"}>{check.message}</span>
+        ) : <span />}
+        <a href={info.keysUrl} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-muted-foreground hover:text-primary shrink-0">
+          Get a key <ExternalLink className="w-3 h-3" />
+        </a>
+      </div>
+    </div>
+  );
+};
+
+const ChangePassphrase = () => {
+  const [passphrase, setPassphrase] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const change = async () => {
+    setIsBusy(true);
+    try {
+      await keyVault.changePassphrase(passphrase);
+      setPassphrase("");
+      toast.success("🔐 Passphrase changed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Collapsible>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary group">
+        <ChevronDown className="w-3 h-3 transition-transform group-data-[state=open]:rotate-180" />
+        Change passphrase
+      </CollapsibleTrigger>
+      <CollapsibleContent className="flex gap-2 pt-3">
+        <Input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder={`New passphrase, ${MIN_PASSPHRASE_LENGTH}+ characters`}
+          autoComplete="new-password"
+          className="bg-input/50 border-glass-border text-xs h-8"
+        />
+        <Button size="sm" variant="outline" onClick={change} disabled={isBusy || !passphrase} className="h-8 px-3 text-xs shrink-0">
+          Change
+        </Button>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+// Models tried in order when the one routed to a service fails
+const FallbackMenu = ({ service, model }: { service: ServiceType; model: string }) => {
+  const config = aiService.getProviderConfig();
+  const fallbacks = resilience.fallbacksFor(config, service).filter(id => id !== model);
+  const candidates = modelsFor(config.id).filter(m => m.id !== model);
+
+  const toggle = (id: string, checked: boolean) =>
+    resilience.setFallbacks(config.id, service, checked ? [...fallbacks, id] : fallbacks.filter(f => f !== id));
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" className="h-8 px-2 text-xs shrink-0 bg-input/50 border-glass-border" title="Fallback models">
+          <Undo2 className="w-3 h-3 mr-1" />
+          {fallbacks.length}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">If {modelLabel(model)} fails, try in order</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {candidates.length === 0 && <DropdownMenuItem disabled className="text-xs">No other models in the catalog</DropdownMenuItem>}
+        {candidates.map(candidate => (
+          <DropdownMenuCheckboxItem
+            key={candidate.id}
+            checked={fallbacks.includes(candidate.id)}
+            onCheckedChange={(checked) => toggle(candidate.id, checked)}
+            onSelect={(e) => e.preventDefault()}
+            className="text-xs"
+          >
+            {fallbacks.includes(candidate.id) && <span className="font-mono mr-1">{fallbacks.indexOf(candidate.id) + 1}.</span>}
+            {candidate.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+// Which model answers each service on the active provider, and what happens when it fails
+const ModelRoutes = () => {
+  const routes = useModelRoutes();
+  const settings = useResilience();
+  const config = aiService.getProviderConfig();
+  const services = Object.keys(SERVICE_LABELS) as ServiceType[];
+
+  return (
+    <Card className="p-3 sm:p-4 bg-gradient-glass border-glass-border space-y-3">
+      <div className="flex items-center gap-2">
+        <Brain className="w-4 h-4 text-primary" />
+        <h3 className="font-semibold text-sm sm:text-base">Models</h3>
+        {(routes[config.id] || settings.fallbacks[config.id]) && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => {
+              modelRouter.resetRoutes(config.id);
+              resilience.resetFallbacks(config.id);
+            }}
+            className="ml-auto h-7 px-2 text-xs"
+          >
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Defaults
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">Which {PROVIDER_KEYS[config.id]?.label ?? config.id} model answers each service. A message can still pick another model. Rate limits and server errors are retried with backoff, then the fallback models are tried in order.</p>
+      {services.map(service => {
+        const model = modelRouter.modelFor(config, service);
+        return (
+          <div key={service} className="flex items-center gap-3">
+            <span className="w-20 text-sm shrink-0">{SERVICE_LABELS[service]}</span>
+            <Select value={model} onValueChange={(next) => modelRouter.setRoute(config.id, service, next)}>
+              <SelectTrigger className="bg-input/50 border-glass-border text-xs h-8 min-w-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <ModelSelectItems extra={model} />
+              </SelectContent>
+            </Select>
+            <FallbackMenu service={service} model={model} />
+          </div>
+        );
+      })}
+      <div className="flex items-center gap-3">
+        <span className="w-20 text-sm shrink-0">Retries</span>
+        <Select value={String(settings.retry.maxRetries)} onValueChange={(next) => resilience.setRetries(Number(next))}>
+          <SelectTrigger className="bg-input/50 border-glass-border text-xs h-8 min-w-0">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Array.from({ length: MAX_RETRIES + 1 }, (_, retries) => (
+              <SelectItem key={retries} value={String(retries)} className="text-xs">
+                {retries === 0 ? 'No retries' : `${retries} per model`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </Card>
+  );
+};
+
+// Corrections to Auto routing, exported to tune the classifier
+const RoutingCorrections = () => {
+  const [corrections, setCorrections] = useState<RoutingCorrection[] | null>(null);
+
+  useEffect(() => {
+    loadRoutingCorrections()
+      .then(setCorrections)
+      .catch(error => console.error('Failed to load routing corrections:', error));
+  }, []);
+
+  const clear = async () => {
+    await clearRoutingCorrections();
+    setCorrections([]);
+    toast.success("🧹 Corrections cleared");
+  };
+
+  return (
+    <Card className="p-3 sm:p-4 bg-gradient-glass border-glass-border space-y-3">
+      <div className="flex items-center gap-2">
+        <Compass className="w-4 h-4 text-primary" />
+        <h3 className="font-semibold text-sm sm:text-base">Auto Routing</h3>
+        <Badge variant="outline" className="ml-auto text-xs">{corrections?.length ?? 0} corrections</Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">Auto picks a service for each message. Tap the service badge on a reply to correct it; corrections are kept here for tuning.</p>
+      {!!corrections?.length && (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => downloadText(JSON.stringify(corrections, null, 2), 'routing-corrections.json')}
+            className="h-8 text-xs bg-gradient-glass border-glass-border"
+          >
+            <Download className="w-3 h-3 mr-1" />
+            Export
+          </Button>
+          <Button size="sm" variant="ghost" onClick={clear} className="h-8 text-xs text-destructive hover:text-destructive">
+            <Trash2 className="w-3 h-3 mr-1" />
+            Clear
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+const SettingsDialog = ({ children }: SettingsDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const vault = useKeyVault();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="w-[95vw] max-w-lg bg-gradient-glass backdrop-blur-xl border-glass-border shadow-glass max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg sm:text-xl font-bold bg-gradient-text bg-clip-text text-transparent text-center flex items-center justify-center gap-2">
+            <Settings className="w-5 h-5 sm:w-6 sm:h-6" />
+            Settings
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* API Keys */}
+          <Card className="p-3 sm:p-4 bg-gradient-glass border-glass-border space-y-3">
+            <div className="flex items-center gap-2">
+              <KeyRound className="w-4 h-4 text-primary" />
+              <h3 className="font-semibold text-sm sm:text-base">API Keys</h3>
+              {vault.state === 'unlocked' && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => keyVault.lock()}
+                  className="ml-auto h-7 px-2 text-xs"
+                  title="Forget the decrypted keys until the next unlock"
+                >
+                  <Lock className="w-3 h-3 mr-1" />
+                  Lock
+                </Button>
+              )}
+            </div>
+
+            {vault.state === 'loading' && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {(vault.state === 'empty' || vault.state === 'locked') && <VaultGate key={vault.state} creating={vault.state === 'empty'} />}
+            {vault.state === 'unlocked' && (
+              <>
+                {providerIds.map(id => (
+                  <ProviderKeyRow key={id} id={id} configured={vault.configured.includes(id)} />
+                ))}
+                <ChangePassphrase />
+              </>
+            )}
+          </Card>
+
+          <ModelRoutes />
+          <RoutingCorrections />
+
+          <p className="text-center text-xs text-muted-foreground">
+            🔐 Keys are encrypted with AES-GCM using a key derived from your passphrase, and are sent only to their provider.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettingsDialog;
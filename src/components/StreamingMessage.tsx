@@ -1,7 +1,9 @@
 import { useState, useEffect } from "react";
 import PandaLogo from "./PandaLogo";
+import MarkdownContent from "./MarkdownContent";
 import { Badge } from "@/components/ui/badge";
 import { Zap, Brain, Cpu, Sparkles } from "lucide-react";
+import { modelLabel } from "@/services/models";
 
 interface StreamingMessageProps {
   message: {
@@ -37,7 +39,6 @@ const StreamingMessage = ({
     return () => clearInterval(interval);
   }, [isActive, message.isStreaming]);
 
-  const isCodeBlock = message.content.includes('```');
   const isUser = message.role === 'user';
   const isStreaming = isActive && message.isStreaming;
 
@@ -106,51 +107,9 @@ const StreamingMessage = ({
             </div>
           )}
           
-          {isCodeBlock ? (
-            <pre className={`
-              font-mono text-xs sm:text-sm overflow-x-auto p-3 rounded-lg border max-h-80 relative
-              ${isUser ? 'bg-black/20 border-white/20' : 'bg-muted/10 border-border'}
-            `}>
-              <code className="relative">
-                {message.content}
-                {isStreaming && showCursor && (
-                  <span className="animate-pulse ml-1 text-primary font-bold text-lg">▋</span>
-                )}
-              </code>
-            </pre>
-          ) : (
-            <div className="prose prose-invert max-w-none">
-              <div className="whitespace-pre-wrap leading-relaxed text-sm md:text-base">
-                {message.content
-                  .split('\n').map((line, index) => {
-                    if (!line.trim()) return <br key={index} />;
-                    
-                    // Enhanced markdown-like formatting
-                    if (line.trim().startsWith('**') && line.trim().endsWith('**')) {
-                      return (
-                        <div key={index} className="font-bold text-primary mb-2 text-base md:text-lg flex items-center gap-2">
-                          <Sparkles className="w-4 h-4" />
-                          {line.replace(/\*\*/g, '')}
-                        </div>
-                      );
-                    }
-                    
-                    if (line.trim().startsWith('•') || line.trim().startsWith('-')) {
-                      return (
-                        <div key={index} className="flex items-start gap-2 ml-2 mb-1">
-                          <span className="text-primary mt-1 text-xs font-bold animate-pulse">●</span>
-                          <span className="flex-1 break-words">{line.replace(/^[•\-]\s*/, '')}</span>
-                        </div>
-                      );
-                    }
-                    
-                    return <div key={index} className="mb-1 break-words">{line}</div>;
-                  })}
-                {isStreaming && showCursor && (
-                  <span className="animate-pulse ml-1 text-primary font-bold text-lg">▋</span>
-                )}
-              </div>
-            </div>
+          <MarkdownContent content={message.content} isUser={isUser} streaming={isStreaming} />
+          {isStreaming && showCursor && (
+            <span className="animate-pulse ml-1 text-primary font-bold text-lg">▋</span>
           )}
           
           <div className="flex items-center justify-between mt-3 pt-3 border-t border-glass-border opacity-70">
@@ -174,8 +133,8 @@ const StreamingMessage = ({
             {message.model && (
               <span className="text-xs text-muted-foreground truncate ml-2 flex items-center gap-1">
                 <Brain className="w-3 h-3" />
-                <span className="hidden sm:inline">{message.model}</span>
-                <span className="sm:hidden">{message.model.split(' ')[0]}</span>
+                <span className="hidden sm:inline">{modelLabel(message.model)}</span>
+                <span className="sm:hidden">{modelLabel(message.model).split(' ')[0]}</span>
               </span>
             )}
           </div>
@@ -0,0 +1,40 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ScrollText, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import MarkdownContent from "./MarkdownContent";
+import type { ConversationSummary } from "@/types/chat";
+
+interface SummaryCardProps {
+  summary: ConversationSummary;
+  // Drop the summary and send the full history again
+  onClear: () => void;
+}
+
+// Stands in the thread after the last summarized message; collapsed by default
+const SummaryCard = ({ summary, onClear }: SummaryCardProps) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mx-2 sm:mx-4 rounded-lg border border-dashed border-glass-border bg-gradient-glass">
+      <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
+        <CollapsibleTrigger className="flex items-center gap-2 flex-1 min-w-0 text-left hover:text-foreground">
+          <ScrollText className="w-3 h-3 shrink-0" />
+          <span className="truncate">
+            {summary.messageCount} earlier message{summary.messageCount === 1 ? '' : 's'} summarized · sent as a summary instead of in full
+          </span>
+          <ChevronDown className={cn("w-3 h-3 shrink-0 transition-transform", open && "rotate-180")} />
+        </CollapsibleTrigger>
+        <Button variant="ghost" size="sm" onClick={onClear} className="h-6 w-6 p-0 shrink-0" title="Forget the summary">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+      <CollapsibleContent className="px-3 pb-3 text-sm">
+        <MarkdownContent content={summary.content} />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default SummaryCard;
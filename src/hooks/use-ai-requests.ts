@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { aiService } from "@/services/aiService";
+
+// Re-renders whenever a model request starts or settles
+export function useAIRequests() {
+  return useSyncExternalStore(aiService.subscribeRequests, aiService.activeRequests);
+}
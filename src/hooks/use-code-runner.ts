@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { runInSandbox, type OutputLine, type RunStatus, type SandboxRun } from "@/lib/sandbox";
+import type { ProjectFile } from "@/types/project";
+
+export interface CodeRunState {
+  file: ProjectFile;
+  status: RunStatus;
+  output: OutputLine[];
+  durationMs?: number;
+}
+
+// One sandboxed run at a time; starting another stops the previous one
+export function useCodeRunner() {
+  const [run, setRun] = useState<CodeRunState | null>(null);
+  const activeRef = useRef<SandboxRun | null>(null);
+
+  const stop = useCallback(() => {
+    activeRef.current?.stop();
+  }, []);
+
+  // Detach before stopping so the old run's last lines never reach the new state
+  const detach = useCallback(() => {
+    const previous = activeRef.current;
+    activeRef.current = null;
+    previous?.stop();
+  }, []);
+
+  const start = useCallback((file: ProjectFile) => {
+    detach();
+    setRun({ file, status: 'running', output: [] });
+
+    const handle = runInSandbox(file.content, file.language, {
+      filename: file.name,
+      onOutput: line => {
+        if (activeRef.current !== handle) return;
+        setRun(prev => (prev ? { ...prev, output: [...prev.output, line] } : prev));
+      },
+    });
+    activeRef.current = handle;
+
+    handle.result.then(({ status, durationMs }) => {
+      if (activeRef.current !== handle) return;
+      activeRef.current = null;
+      setRun(prev => (prev ? { ...prev, status, durationMs } : prev));
+    });
+  }, [detach]);
+
+  const clear = useCallback(() => {
+    detach();
+    setRun(null);
+  }, [detach]);
+
+  useEffect(() => detach, [detach]);
+
+  return { run, start, stop, clear };
+}
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Conversation, ConversationSummary, GenerationParams, Message, ServiceType } from "@/types/chat";
+import {
+  DEFAULT_CONVERSATION_TITLE,
+  createConversation,
+  sortConversations,
+  titleFromMessage,
+} from "@/lib/conversations";
+import { storage } from "@/services/storage";
+
+type MessagesUpdater = (messages: Message[]) => Message[];
+type SummaryUpdate = ConversationSummary | undefined | ((current: ConversationSummary | undefined) => ConversationSummary | undefined);
+
+const ACTIVE_CONVERSATION_META = 'activeConversationId';
+const PERSIST_DELAY_MS = 400;
+
+export function useConversations() {
+  const [conversations, setConversations] = useState<Conversation[]>(() => [createConversation()]);
+  const [activeId, setActiveId] = useState<string>(() => conversations[0].id);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Conversation objects as last handed to storage, to skip the unchanged ones
+  const persistedRef = useRef(new Map<string, Conversation>());
+  // Latest state, for async work that outlives the render it started in
+  const latestRef = useRef(conversations);
+  latestRef.current = conversations;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([storage.loadConversations(), storage.getMeta<string>(ACTIVE_CONVERSATION_META)])
+      .then(([loaded, savedActiveId]) => {
+        if (cancelled) return;
+        if (loaded.length > 0) {
+          loaded.forEach(c => persistedRef.current.set(c.id, c));
+          setConversations(loaded);
+          setActiveId(savedActiveId && loaded.some(c => c.id === savedActiveId)
+            ? savedActiveId
+            : sortConversations(loaded)[0].id);
+        }
+      })
+      .catch(error => console.error('Error loading conversations:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const timer = setTimeout(() => {
+      const persisted = persistedRef.current;
+      const currentIds = new Set(conversations.map(c => c.id));
+
+      conversations.forEach(conversation => {
+        if (persisted.get(conversation.id) === conversation) return;
+        persisted.set(conversation.id, conversation);
+        storage.saveConversation(conversation).catch(() => persisted.delete(conversation.id));
+      });
+      [...persisted.keys()].filter(id => !currentIds.has(id)).forEach(id => {
+        persisted.delete(id);
+        storage.deleteConversation(id);
+      });
+    }, PERSIST_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [conversations, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) storage.setMeta(ACTIVE_CONVERSATION_META, activeId);
+  }, [activeId, isLoaded]);
+
+  const activeConversation = conversations.find(c => c.id === activeId) || conversations[0];
+
+  const getConversation = useCallback((id: string) => latestRef.current.find(c => c.id === id), []);
+
+  const updateConversation = useCallback((id: string, update: (conversation: Conversation) => Conversation) => {
+    setConversations(prev => prev.map(c => (c.id === id ? update(c) : c)));
+  }, []);
+
+  // Message updates target a conversation id, so a reply keeps streaming into
+  // the conversation it was started in even after the user switches away
+  const setConversationMessages = useCallback((id: string, updater: MessagesUpdater) => {
+    updateConversation(id, conversation => {
+      const messages = updater(conversation.messages);
+      let title = conversation.title;
+      if (title === DEFAULT_CONVERSATION_TITLE) {
+        const firstPrompt = messages.find(m => m.role === 'user');
+        if (firstPrompt) title = titleFromMessage(firstPrompt.content);
+      }
+      return { ...conversation, messages, title, updatedAt: new Date() };
+    });
+  }, [updateConversation]);
+
+  // Show the branch ending at `leafId`; undefined follows the newest message
+  const setConversationLeaf = useCallback((id: string, leafId: string | undefined) => {
+    updateConversation(id, conversation => ({ ...conversation, activeLeafId: leafId }));
+  }, [updateConversation]);
+
+  const setConversationService = useCallback((id: string, service: ServiceType) => {
+    updateConversation(id, conversation => ({ ...conversation, service }));
+  }, [updateConversation]);
+
+  // Undefined clears the overrides so the service preset applies again
+  const setConversationParams = useCallback((id: string, params: Partial<GenerationParams> | undefined) => {
+    updateConversation(id, conversation => ({ ...conversation, params }));
+  }, [updateConversation]);
+
+  const setConversationPersona = useCallback((id: string, personaId: string | undefined) => {
+    updateConversation(id, conversation => ({ ...conversation, personaId }));
+  }, [updateConversation]);
+
+  // An updater sees the summary as it is when the write lands
+  const setConversationSummary = useCallback((id: string, update: SummaryUpdate) => {
+    updateConversation(id, conversation => ({
+      ...conversation,
+      summary: typeof update === 'function' ? update(conversation.summary) : update
+    }));
+  }, [updateConversation]);
+
+  const setConversationSummarize = useCallback((id: string, summarize: boolean) => {
+    updateConversation(id, conversation => ({ ...conversation, summarize }));
+  }, [updateConversation]);
+
+  const newConversation = useCallback((service: ServiceType = 'auto') => {
+    const conversation = createConversation(service);
+    setConversations(prev => [conversation, ...prev]);
+    setActiveId(conversation.id);
+    return conversation;
+  }, []);
+
+  const renameConversation = useCallback((id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    updateConversation(id, conversation => ({ ...conversation, title: trimmed }));
+  }, [updateConversation]);
+
+  const togglePinConversation = useCallback((id: string) => {
+    updateConversation(id, conversation => ({ ...conversation, pinned: !conversation.pinned }));
+  }, [updateConversation]);
+
+  const deleteConversation = useCallback((id: string) => {
+    const remaining = conversations.filter(c => c.id !== id);
+    if (remaining.length === 0) {
+      const fresh = createConversation();
+      setConversations([fresh]);
+      setActiveId(fresh.id);
+      return;
+    }
+
+    setConversations(prev => prev.filter(c => c.id !== id));
+    if (id === activeId) {
+      setActiveId(sortConversations(remaining)[0].id);
+    }
+  }, [conversations, activeId]);
+
+  const sortedConversations = useMemo(() => sortConversations(conversations), [conversations]);
+
+  return {
+    isLoaded,
+    conversations: sortedConversations,
+    activeConversation,
+    getConversation,
+    selectConversation: setActiveId,
+    newConversation,
+    renameConversation,
+    togglePinConversation,
+    deleteConversation,
+    setConversationMessages,
+    setConversationLeaf,
+    setConversationService,
+    setConversationParams,
+    setConversationPersona,
+    setConversationSummary,
+    setConversationSummarize,
+  };
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { generationPresets } from "@/services/generation";
+
+// Re-renders whenever a service's parameter preset changes
+export function useGenerationPresets() {
+  return useSyncExternalStore(generationPresets.subscribe, generationPresets.getSnapshot);
+}
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+import { healthMonitor } from "@/services/health";
+
+// Re-renders on every health check; monitoring runs while something is subscribed
+export function useHealth() {
+  return useSyncExternalStore(healthMonitor.subscribe, healthMonitor.getSnapshot);
+}
+
+// Whether a prompt can be sent now; only re-renders when that changes
+export function useIsReachable() {
+  return useSyncExternalStore(healthMonitor.subscribe, () => healthMonitor.isReachable());
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { keyVault, type VaultSnapshot } from "@/services/keyVault";
+
+// Re-renders whenever the key vault is unlocked, locked or edited
+export function useKeyVault(): VaultSnapshot {
+  return useSyncExternalStore(keyVault.subscribe, keyVault.getSnapshot);
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { modelRouter } from "@/services/models";
+
+// Re-renders whenever a service's model route changes
+export function useModelRoutes() {
+  return useSyncExternalStore(modelRouter.subscribe, modelRouter.getSnapshot);
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { personaLibrary } from "@/services/personas";
+
+// Re-renders whenever a persona or a service default changes
+export function usePersonas() {
+  return useSyncExternalStore(personaLibrary.subscribe, personaLibrary.getSnapshot);
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { resilience } from "@/services/resilience";
+
+// Re-renders whenever the retry policy or a fallback chain changes
+export function useResilience() {
+  return useSyncExternalStore(resilience.subscribe, resilience.getSnapshot);
+}
@@ -0,0 +1,113 @@
+// src/lib/codeExtraction.ts
+import type { ProjectFile } from "@/types/project";
+import { extensionFor, findLanguage, languageForPath } from "@/lib/languages";
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+
+// Something that looks like a file path: has an extension, or is a well-known extensionless file
+const PATH = /(?:^|[\s`*"'(:])((?:[\w@.-]+\/)*(?:[\w@-][\w@.-]*\.[A-Za-z0-9]{1,10}|Dockerfile|Makefile|Procfile))(?=$|[\s`*"'):,])/;
+
+// Marker comments such as `// file: src/App.tsx` or `<!-- filename: index.html -->`
+const FILE_COMMENT = /^\s*(?:\/\/|#|--|;|\/\*|<!--)\s*(?:file(?:name)?|path)\s*:\s*([^\s*>]+)\s*(?:\*\/|-->)?\s*$/i;
+
+const cleanPath = (path: string) => path.replace(/^\.\//, '').replace(/^\/+/, '');
+
+// Pull a file name out of the fence info string: ```tsx src/App.tsx, ```js:app.js, ```ts title="a.ts"
+const parseInfo = (info: string): { language?: string; path?: string } => {
+  const trimmed = info.trim();
+  if (!trimmed) return {};
+
+  const title = trimmed.match(/(?:title|file(?:name)?)=["']?([^"'\s]+)/i)?.[1];
+  const [head, ...rest] = trimmed.split(/\s+/);
+  const [tag, colonPath] = head.split(':');
+
+  let language: string | undefined = tag.toLowerCase();
+  let path = title || colonPath || rest.find(word => PATH.test(` ${word}`));
+
+  // ```src/App.tsx with no language tag at all
+  if (!path && PATH.test(` ${head}`) && head.includes('.')) {
+    path = head;
+    language = undefined;
+  }
+
+  return { language, path: path ? cleanPath(path) : undefined };
+};
+
+// Headings, bold text or `code` spans right above a fence often name the file
+const pathFromProse = (lines: string[]): string | undefined => {
+  const candidates = lines.map(line => line.trim()).filter(Boolean).slice(-2).reverse();
+  for (const line of candidates) {
+    // Only short label-like lines count; a long sentence mentioning a file is not a caption
+    if (line.length > 120) continue;
+    const match = line.replace(/[*_#>]/g, ' ').match(PATH);
+    if (match) return cleanPath(match[1]);
+  }
+  return undefined;
+};
+
+const uniqueName = (name: string, taken: Set<string>): string => {
+  if (!taken.has(name)) return name;
+  const dot = name.lastIndexOf('.');
+  const [base, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  let counter = 2;
+  while (taken.has(`${base}-${counter}${ext}`)) counter++;
+  return `${base}-${counter}${ext}`;
+};
+
+// Extract every fenced code block of a reply as a named file
+export function extractCodeFiles(markdown: string, fallbackLanguage = 'javascript'): ProjectFile[] {
+  const files: ProjectFile[] = [];
+  const taken = new Set<string>();
+  let prose: string[] = [];
+  let block: { fence: string; info: string; lines: string[] } | null = null;
+
+  const finishBlock = () => {
+    if (!block) return;
+    const { language: infoLanguage, path: infoPath } = parseInfo(block.info);
+    let lines = block.lines;
+
+    let path = infoPath;
+    const marker = lines.find(line => line.trim())?.match(FILE_COMMENT);
+    if (marker) {
+      path = path || cleanPath(marker[1]);
+      lines = lines.slice(lines.findIndex(line => line.trim()) + 1);
+    }
+    path = path || pathFromProse(prose);
+
+    const content = lines.join('\n').replace(/^\n+/, '').replace(/\s+$/, '');
+    if (content) {
+      const language = (infoLanguage && (findLanguage(infoLanguage)?.value || infoLanguage))
+        || (path && languageForPath(path))
+        || fallbackLanguage;
+      const name = uniqueName(path || `${files.length === 0 ? 'main' : `snippet-${files.length + 1}`}.${extensionFor(language)}`, taken);
+      taken.add(name);
+      files.push({ name, content, language });
+    }
+
+    block = null;
+    prose = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (block) {
+      const close = line.match(FENCE);
+      if (close && close[1][0] === block.fence[0] && close[1].length >= block.fence.length && !close[2].trim()) {
+        finishBlock();
+      } else {
+        block.lines.push(line);
+      }
+      continue;
+    }
+
+    const open = line.match(FENCE);
+    if (open) {
+      block = { fence: open[1], info: open[2], lines: [] };
+    } else {
+      prose.push(line);
+    }
+  }
+  // A reply cut off mid-block still yields what was generated
+  finishBlock();
+
+  return files;
+}
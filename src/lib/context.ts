@@ -0,0 +1,77 @@
+// src/lib/context.ts
+import type { AIMessage } from "@/services/aiService";
+
+// Window assumed for models outside the catalog
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Role markers and separators each message adds on the wire
+const MESSAGE_OVERHEAD = 4;
+// What providers bill for one image at standard detail
+const IMAGE_TOKENS = 765;
+
+// Rough count without a tokenizer: about four characters per token for English and code
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const messageTokens = (message: AIMessage): number =>
+  MESSAGE_OVERHEAD + estimateTokens(message.content) + (message.image ? IMAGE_TOKENS : 0);
+
+export interface ContextRequest {
+  // Oldest first; the last one is the prompt being answered
+  messages: AIMessage[];
+  system?: string;
+  // Summary of turns that are no longer sent verbatim
+  summary?: string;
+  contextWindow: number;
+  // Room kept free for the reply
+  reserveTokens: number;
+}
+
+export interface ContextWindow {
+  // What gets sent, system prompt and summary first
+  messages: AIMessage[];
+  usedTokens: number;
+  // Tokens available to the prompt once the reply's room is set aside
+  budget: number;
+  contextWindow: number;
+  // History that didn't fit
+  dropped: number;
+  // The system prompt, summary, pinned messages and prompt alone exceed the budget
+  overflow: boolean;
+}
+
+// Fill the window newest-first. The system prompt, summary, pinned messages and the prompt
+// itself always go in; older history is dropped once the budget runs out.
+export function buildContext({ messages, system, summary, contextWindow, reserveTokens }: ContextRequest): ContextWindow {
+  const budget = Math.max(contextWindow - reserveTokens, 0);
+  const preamble: AIMessage[] = [
+    ...(system ? [{ role: 'system' as const, content: system }] : []),
+    ...(summary ? [{ role: 'system' as const, content: `Summary of the earlier conversation:\n${summary}` }] : []),
+  ];
+  const costs = messages.map(messageTokens);
+  const required = new Set(messages.map((m, i) => (m.pinned || i === messages.length - 1 ? i : -1)).filter(i => i >= 0));
+
+  let used = preamble.reduce((sum, m) => sum + messageTokens(m), 0)
+    + [...required].reduce((sum, i) => sum + costs[i], 0);
+  const overflow = used > budget;
+
+  const kept = new Set(required);
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (kept.has(i)) continue;
+    if (used + costs[i] > budget) break;
+    kept.add(i);
+    used += costs[i];
+  }
+
+  const history = messages.filter((_, i) => kept.has(i));
+  return {
+    messages: [...preamble, ...history],
+    usedTokens: used,
+    budget,
+    contextWindow,
+    dropped: messages.length - history.length,
+    overflow,
+  };
+}
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 10000 ? 0 : 1)}K` : `${tokens}`;
@@ -0,0 +1,45 @@
+// src/lib/conversations.ts
+import type { Conversation, Message, ServiceType } from "@/types/chat";
+
+export const DEFAULT_CONVERSATION_TITLE = 'New chat';
+
+export const createWelcomeMessage = (): Message => ({
+  id: '1',
+  content: "🚀 **Welcome to PandaNexus - World's Fastest AI Platform!**\n\nI'm your quantum-powered AI companion, engineered by Shakeel to deliver:\n\n• ⚡ **Lightning Responses** - Instant AI interactions\n• 💻 **Code Studio Pro** - Advanced development environment\n• 🎨 **AI Art Engine** - Instant image generation\n• 🌐 **One-Click Deploy** - Deploy to Vercel instantly\n• 🧠 **Multi-Modal Genius** - Text, code, and image mastery\n• 🔧 **Smart Spell Check** - AI-powered text optimization\n\nReady to build something revolutionary? Let's create the impossible! 🌟",
+  role: 'assistant',
+  timestamp: new Date(),
+  model: 'PandaNexus Quantum Engine'
+});
+
+export const createConversation = (service: ServiceType = 'auto', messages: Message[] = [createWelcomeMessage()]): Conversation => {
+  const now = new Date();
+  return {
+    id: `conv-${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    title: DEFAULT_CONVERSATION_TITLE,
+    messages,
+    service,
+    pinned: false,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// Derive a short sidebar title from the first user prompt
+export const titleFromMessage = (content: string): string => {
+  const firstLine = content
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/[*_`#>]/g, '')
+    .split('\n')
+    .map(line => line.trim())
+    .find(Boolean) || '';
+
+  if (!firstLine) return DEFAULT_CONVERSATION_TITLE;
+  return firstLine.length > 40 ? `${firstLine.slice(0, 40).trimEnd()}…` : firstLine;
+};
+
+// Pinned first, then most recently updated
+export const sortConversations = (conversations: Conversation[]): Conversation[] =>
+  [...conversations].sort((a, b) => {
+    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+    return b.updatedAt.getTime() - a.updatedAt.getTime();
+  });
@@ -0,0 +1,33 @@
+// src/lib/deployments.ts
+import type { DeploymentRecord, DeploymentSnapshot, Project, ProjectFile } from "@/types/project";
+
+export const MAX_DEPLOYMENTS = 20;
+
+// Order-independent fingerprint of a set of files
+export async function snapshotHash(files: ProjectFile[]): Promise<string> {
+  const text = [...files]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(f => `${f.name}\0${f.content}\0`)
+    .join('');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest).slice(0, 6), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Add a deployment to the project's history; successful ones also become the live URL
+export function recordDeployment(project: Project, record: DeploymentRecord): Project {
+  return {
+    ...project,
+    deployUrl: record.status === 'success' && record.url ? record.url : project.deployUrl,
+    deployments: [record, ...(project.deployments ?? [])].slice(0, MAX_DEPLOYMENTS),
+  };
+}
+
+// Put the project's files back to what a deployment published
+export const restoreSnapshot = (project: Project, snapshot: DeploymentSnapshot): Project => ({
+  ...project,
+  files: snapshot.files.map(f => ({ ...f })),
+});
+
+// Snapshots a project's history refers to
+export const deploymentHashes = (project?: Project): string[] =>
+  [...new Set((project?.deployments ?? []).map(d => d.hash))];
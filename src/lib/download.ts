@@ -0,0 +1,17 @@
+// src/lib/download.ts
+
+// Trigger a browser download for in-memory content
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export function downloadText(content: string, filename: string): void {
+  downloadBlob(new Blob([content], { type: 'text/plain' }), filename);
+}
@@ -0,0 +1,71 @@
+// src/lib/highlight.ts
+import hljs from "highlight.js/lib/common";
+
+// Code Studio language values that highlight.js knows under another name
+const grammarFor: Record<string, string> = {
+  react: "javascript",
+  nodejs: "javascript",
+  nextjs: "typescript",
+  html: "xml",
+};
+
+// Auto-detection scores every grammar, so skip it for big blocks
+const AUTO_DETECT_LIMIT = 4000;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export function resolveGrammar(language?: string): string | undefined {
+  if (!language) return undefined;
+  const key = language.toLowerCase();
+  const grammar = grammarFor[key] || key;
+  return hljs.getLanguage(grammar) ? grammar : undefined;
+}
+
+function highlightHtml(code: string, language?: string): { html: string; language?: string } {
+  const grammar = resolveGrammar(language);
+  try {
+    if (grammar) {
+      return { html: hljs.highlight(code, { language: grammar, ignoreIllegals: true }).value, language: grammar };
+    }
+    if (code.length <= AUTO_DETECT_LIMIT) {
+      const result = hljs.highlightAuto(code);
+      return { html: result.value, language: result.language };
+    }
+  } catch (error) {
+    console.error("Highlight failed:", error);
+  }
+  return { html: escapeHtml(code) };
+}
+
+// Highlight code and split the markup into one balanced HTML string per line,
+// re-opening any token span (e.g. a block comment) that crosses a line break
+export function highlightLines(code: string, language?: string): { lines: string[]; language?: string } {
+  const { html, language: detected } = highlightHtml(code, language);
+  const lines: string[] = [];
+  const openTags: string[] = [];
+  let current = "";
+
+  for (const token of html.split(/(<span[^>]*>|<\/span>)/)) {
+    if (!token) continue;
+    if (token.startsWith("<span")) {
+      openTags.push(token);
+      current += token;
+    } else if (token === "</span>") {
+      openTags.pop();
+      current += token;
+    } else {
+      const parts = token.split("\n");
+      parts.forEach((part, index) => {
+        if (index > 0) {
+          lines.push(current + "</span>".repeat(openTags.length));
+          current = openTags.join("");
+        }
+        current += part;
+      });
+    }
+  }
+  lines.push(current);
+
+  return { lines, language: detected };
+}
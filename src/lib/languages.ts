@@ -0,0 +1,93 @@
+// src/lib/languages.ts
+
+// Languages offered in Code Studio, with the file extension used when saving
+export const languages = [
+  { value: "javascript", label: "JavaScript", icon: "🟨", ext: "js" },
+  { value: "typescript", label: "TypeScript", icon: "🔷", ext: "ts" },
+  { value: "python", label: "Python", icon: "🐍", ext: "py" },
+  { value: "react", label: "React", icon: "⚛️", ext: "jsx" },
+  { value: "nextjs", label: "Next.js", icon: "▲", ext: "tsx" },
+  { value: "nodejs", label: "Node.js", icon: "🟢", ext: "js" },
+  { value: "html", label: "HTML", icon: "🌐", ext: "html" },
+  { value: "css", label: "CSS", icon: "🎨", ext: "css" },
+  { value: "sql", label: "SQL", icon: "🗄️", ext: "sql" },
+  { value: "php", label: "PHP", icon: "🐘", ext: "php" },
+  { value: "java", label: "Java", icon: "☕", ext: "java" },
+  { value: "cpp", label: "C++", icon: "⚙️", ext: "cpp" },
+  { value: "go", label: "Go", icon: "🐹", ext: "go" },
+  { value: "rust", label: "Rust", icon: "🦀", ext: "rs" }
+];
+
+export type LanguageInfo = typeof languages[number];
+
+// Fence tags models commonly use that are not in the table above
+const aliases: Record<string, string> = {
+  js: "javascript",
+  jsx: "react",
+  mjs: "javascript",
+  cjs: "javascript",
+  node: "nodejs",
+  ts: "typescript",
+  tsx: "nextjs",
+  py: "python",
+  python3: "python",
+  htm: "html",
+  xml: "html",
+  golang: "go",
+  rs: "rust",
+  "c++": "cpp",
+  cc: "cpp",
+  hpp: "cpp",
+  postgres: "sql",
+  postgresql: "sql",
+  mysql: "sql",
+};
+
+// Extensions for fence tags that have no Code Studio entry
+const extraExtensions: Record<string, string> = {
+  json: "json",
+  bash: "sh",
+  sh: "sh",
+  shell: "sh",
+  zsh: "sh",
+  yaml: "yml",
+  yml: "yml",
+  markdown: "md",
+  md: "md",
+  scss: "scss",
+  c: "c",
+  csharp: "cs",
+  cs: "cs",
+  kotlin: "kt",
+  swift: "swift",
+  ruby: "rb",
+  dockerfile: "Dockerfile",
+  toml: "toml",
+  vue: "vue",
+  svelte: "svelte",
+};
+
+export function findLanguage(language?: string): LanguageInfo | undefined {
+  if (!language) return undefined;
+  const key = language.toLowerCase();
+  return languages.find(l => l.value === (aliases[key] || key));
+}
+
+export function extensionFor(language?: string): string {
+  const key = language?.toLowerCase() || "";
+  return findLanguage(key)?.ext || extraExtensions[key] || "txt";
+}
+
+// Languages for extensions that have no Code Studio entry
+const extensionLanguages: Record<string, string> = {
+  json: "json", sh: "bash", yml: "yaml", yaml: "yaml", md: "markdown", scss: "scss", c: "c",
+  cs: "csharp", kt: "kotlin", swift: "swift", rb: "ruby", toml: "toml", vue: "vue",
+  svelte: "svelte", mjs: "javascript", cjs: "javascript", htm: "html", tsx: "typescript", txt: "plaintext",
+};
+
+export function languageForPath(path: string): string | undefined {
+  if (/(^|\/)Dockerfile$/.test(path)) return "dockerfile";
+  const ext = path.includes(".") ? path.split(".").pop()?.toLowerCase() : undefined;
+  if (!ext) return undefined;
+  return extensionLanguages[ext] || languages.find(l => l.ext === ext)?.value;
+}
@@ -0,0 +1,68 @@
+// src/lib/markdown.ts
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+interface Segment {
+  text: string;
+  isCode: boolean;
+}
+
+// Split markdown into fenced code and prose, leaving an unterminated fence open
+export function splitFences(markdown: string): { segments: Segment[]; openFence: string | null } {
+  const segments: Segment[] = [];
+  let current: string[] = [];
+  let openFence: string | null = null;
+
+  const flush = (isCode: boolean) => {
+    if (current.length) segments.push({ text: current.join('\n'), isCode });
+    current = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    const match = line.match(FENCE);
+    if (!openFence && match) {
+      flush(false);
+      openFence = match[1];
+      current.push(line);
+    } else if (openFence && match && match[1][0] === openFence[0] && match[1].length >= openFence.length && !line.trim().slice(match[1].length)) {
+      current.push(line);
+      flush(true);
+      openFence = null;
+    } else {
+      current.push(line);
+    }
+  }
+  flush(openFence !== null);
+
+  return { segments, openFence };
+}
+
+// Close constructs a reply is still in the middle of, so partial output renders
+// as the block it will become instead of flashing raw markdown
+function closeDangling(prose: string): string {
+  const lastBlock = prose.split(/\n\s*\n/).pop() || '';
+  const withoutInlineCode = lastBlock.replace(/`[^`\n]*`/g, '');
+  let suffix = '';
+
+  if ((lastBlock.match(/`/g) || []).length % 2 === 1) suffix += '`';
+  else if ((withoutInlineCode.match(/\*\*/g) || []).length % 2 === 1) suffix += '**';
+
+  return prose + suffix;
+}
+
+// Normalise assistant output for the markdown renderer
+export function prepareMarkdown(content: string, streaming = false): string {
+  const { segments, openFence } = splitFences(content);
+
+  const prepared = segments.map((segment, index) => {
+    if (segment.isCode) return segment.text;
+    // Replies use "•" bullets, which CommonMark does not treat as list markers
+    let text = segment.text.replace(/^(\s*)•\s+/gm, '$1- ');
+    if (streaming && !openFence && index === segments.length - 1) {
+      text = closeDangling(text);
+    }
+    return text;
+  }).join('\n');
+
+  return openFence ? `${prepared}\n${openFence}` : prepared;
+}
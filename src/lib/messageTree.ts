@@ -0,0 +1,43 @@
+// src/lib/messageTree.ts
+import type { Message } from "@/types/chat";
+
+// Conversations store every version of every message; each one points at the message it
+// answers or follows. Messages saved before branching have no parentId and follow the
+// message before them in the array.
+const parentIds = (messages: Message[]): Map<string, string | undefined> =>
+  new Map(messages.map((m, i) => [m.id, m.parentId !== undefined ? m.parentId ?? undefined : messages[i - 1]?.id]));
+
+// The thread shown and sent: from the root down to `leafId`, or to the newest message
+export function activePath(messages: Message[], leafId?: string): Message[] {
+  if (messages.length === 0) return [];
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const parents = parentIds(messages);
+  const path: Message[] = [];
+  const seen = new Set<string>();
+
+  let current = byId.get(leafId ?? '') ?? messages[messages.length - 1];
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = byId.get(parents.get(current.id) ?? '');
+  }
+  return path.reverse();
+}
+
+// Every version of a message, oldest first, including the message itself
+export function siblingsOf(messages: Message[], id: string): Message[] {
+  const parents = parentIds(messages);
+  const parent = parents.get(id);
+  return messages.filter(m => parents.get(m.id) === parent);
+}
+
+// Where a branch currently ends: follow the newest reply at every step
+export function latestLeaf(messages: Message[], id: string): string {
+  const parents = parentIds(messages);
+  let leaf = id;
+  for (;;) {
+    const child = messages.filter(m => parents.get(m.id) === leaf).pop();
+    if (!child) return leaf;
+    leaf = child.id;
+  }
+}
@@ -0,0 +1,299 @@
+// src/lib/preview.ts
+import type { ProjectFile } from "@/types/project";
+import { normalizePath } from "@/lib/projectFiles";
+
+export interface PreviewBuild {
+  html: string;
+  errors: string[];
+}
+
+// npm packages are fetched as ES modules at preview time; React is pinned to the app's own major
+const PACKAGE_CDN = 'https://esm.sh';
+const DEFAULT_VERSIONS: Record<string, string> = { react: '18.3.1', 'react-dom': '18.3.1' };
+
+const MODULE_FILE = /\.(m?js|jsx|ts|tsx)$/i;
+const ENTRY_CANDIDATES = ['src/main', 'src/index', 'main', 'index', 'src/App', 'App'];
+const RENDER_CALL = /\b(createRoot|hydrateRoot|ReactDOM\.render)\s*\(/;
+
+const PREVIEW_LANGUAGES = new Set(['html', 'css', 'react']);
+
+export const isPreviewable = (files: ProjectFile[]) =>
+  files.some(f => /\.(html?|css|jsx|tsx)$/i.test(f.name) || PREVIEW_LANGUAGES.has(f.language));
+
+const dirname = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+
+const joinPath = (base: string, spec: string) => {
+  const parts = (spec.startsWith('/') ? spec.slice(1) : `${base ? `${base}/` : ''}${spec}`).split('/');
+  const out: string[] = [];
+  for (const part of parts) {
+    if (part === '..') out.pop();
+    else if (part && part !== '.') out.push(part);
+  }
+  return out.join('/');
+};
+
+// Local references in HTML only; URLs and data URIs are left alone
+const localPath = (from: string, ref: string | null): string | null => {
+  if (!ref || /^([a-z]+:|\/\/|#)/i.test(ref)) return null;
+  return joinPath(dirname(from), ref.split(/[?#]/)[0]);
+};
+
+const packageName = (spec: string) => spec.split('/').slice(0, spec.startsWith('@') ? 2 : 1).join('/');
+
+const packageVersions = (files: ProjectFile[]): Record<string, string> => {
+  const manifest = files.find(f => f.name === 'package.json');
+  if (!manifest) return {};
+  try {
+    const { dependencies = {}, devDependencies = {} } = JSON.parse(manifest.content);
+    const versions: Record<string, string> = {};
+    for (const [name, range] of Object.entries({ ...devDependencies, ...dependencies })) {
+      const version = String(range).match(/\d+(\.\d+){0,2}/)?.[0];
+      if (version) versions[name] = version;
+    }
+    return versions;
+  } catch {
+    return {};
+  }
+};
+
+// esm.sh URL for a bare import; every package shares the same React instance through `deps`
+const packageUrl = (spec: string, versions: Record<string, string>) => {
+  const name = packageName(spec);
+  const version = versions[name] || DEFAULT_VERSIONS[name];
+  const subpath = spec.slice(name.length);
+  const deps = ['react', 'react-dom']
+    .filter(shared => shared !== name)
+    .map(shared => `${shared}@${versions[shared] || DEFAULT_VERSIONS[shared]}`)
+    .join(',');
+  return `${PACKAGE_CDN}/${name}${version ? `@${version}` : ''}${subpath}?deps=${deps}`;
+};
+
+// `</script` inside code would end the inline script that carries it
+const escapeScript = (code: string) => code.replace(/<\/script/gi, '<\\/script');
+
+// Shows runtime errors on top of the page instead of leaving a blank frame
+const ERROR_OVERLAY = `
+(() => {
+  const show = (message) => {
+    let box = document.getElementById('__preview_error');
+    if (!box) {
+      box = document.createElement('pre');
+      box.id = '__preview_error';
+      box.style.cssText = 'position:fixed;left:0;right:0;bottom:0;max-height:50%;overflow:auto;margin:0;padding:12px;z-index:2147483647;background:#2b0d0d;color:#fca5a5;font:12px/1.5 ui-monospace,monospace;white-space:pre-wrap;border-top:2px solid #ef4444';
+      (document.body || document.documentElement).appendChild(box);
+    }
+    box.textContent += message + '\\n';
+  };
+  window.__previewError = show;
+  window.addEventListener('error', (event) => show(event.error && event.error.stack || event.message));
+  window.addEventListener('unhandledrejection', (event) => show('Unhandled rejection: ' + (event.reason && event.reason.stack || event.reason)));
+})();
+`;
+
+// CommonJS-style registry for the compiled project files, with node-like path resolution
+const MODULE_RUNTIME = `
+(() => {
+  const { factories, packages: packageUrls, entries } = window.__preview;
+  const extensions = ['', '.tsx', '.ts', '.jsx', '.js', '.mjs', '.json', '.css'];
+  const packages = {};
+  const cache = {};
+  const dirname = (path) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+  const join = (base, spec) => {
+    const out = [];
+    for (const part of (spec[0] === '/' ? spec.slice(1) : (base ? base + '/' : '') + spec).split('/')) {
+      if (part === '..') out.pop();
+      else if (part && part !== '.') out.push(part);
+    }
+    return out.join('/');
+  };
+  const resolve = (from, spec) => {
+    const base = join(dirname(from), spec);
+    for (const ext of extensions) if (factories[base + ext]) return base + ext;
+    for (const ext of extensions.slice(1)) if (factories[base + '/index' + ext]) return base + '/index' + ext;
+    return null;
+  };
+  const requireFrom = (from) => (spec) => {
+    if (!/^[./]/.test(spec)) {
+      if (packages[spec]) return packages[spec];
+      throw new Error('Package "' + spec + '" is not available in the preview');
+    }
+    const path = resolve(from, spec);
+    if (!path) throw new Error('Cannot find module "' + spec + '" from ' + (from || 'the page'));
+    if (!cache[path]) {
+      const module = { exports: {} };
+      cache[path] = module;
+      factories[path](module, module.exports, requireFrom(path));
+    }
+    return cache[path].exports;
+  };
+  Promise.all(Object.entries(packageUrls).map(([spec, url]) => import(url).then((ns) => {
+    packages[spec] = Object.assign({}, ns, { __esModule: true });
+  }, () => {
+    throw new Error('Failed to load package "' + spec + '" from ' + url);
+  }))).then(() => {
+    for (const entry of entries) {
+      try {
+        requireFrom('')('/' + entry);
+      } catch (error) {
+        window.__previewError(error.stack || String(error));
+      }
+    }
+  }, (error) => window.__previewError(error.message));
+})();
+`;
+
+type Transform = typeof import('sucrase').transform;
+
+interface CompiledModules {
+  factories: Record<string, string>;
+  packages: Set<string>;
+  errors: string[];
+}
+
+// Compile one JS/TS/JSX source into a CommonJS factory body and note the packages it imports
+const compileSource = (transform: Transform, name: string, source: string, out: CompiledModules) => {
+  const transforms: ('typescript' | 'jsx' | 'imports')[] = ['imports'];
+  if (/\.tsx?$/i.test(name)) transforms.push('typescript');
+  // .js files in React projects often contain JSX too; .ts files never do
+  if (!/\.ts$/i.test(name)) transforms.push('jsx');
+  try {
+    const { code } = transform(source, { transforms, filePath: name, jsxRuntime: 'automatic', production: true });
+    for (const match of code.matchAll(/\brequire\((['"])([^'"]+)\1\)/g)) {
+      if (!/^[./]/.test(match[2])) out.packages.add(match[2]);
+    }
+    out.factories[name] = code;
+  } catch (error) {
+    out.errors.push(`${name}: ${(error as Error).message}`);
+  }
+};
+
+const compileModules = (transform: Transform, files: ProjectFile[]): CompiledModules => {
+  const out: CompiledModules = { factories: {}, packages: new Set(), errors: [] };
+
+  for (const file of files) {
+    if (MODULE_FILE.test(file.name)) {
+      compileSource(transform, file.name, file.content, out);
+    } else if (/\.css$/i.test(file.name)) {
+      out.factories[file.name] = `const style = document.createElement('style');\nstyle.dataset.file = ${JSON.stringify(file.name)};\nstyle.textContent = ${JSON.stringify(file.content)};\ndocument.head.appendChild(style);`;
+    } else if (/\.json$/i.test(file.name)) {
+      out.factories[file.name] = `module.exports = JSON.parse(${JSON.stringify(file.content)});`;
+    }
+  }
+
+  return out;
+};
+
+const findEntry = (files: ProjectFile[]) => {
+  for (const base of ENTRY_CANDIDATES) {
+    const match = files.find(f => MODULE_FILE.test(f.name) && f.name.replace(MODULE_FILE, '') === base);
+    if (match) return match.name;
+  }
+  return files.find(f => MODULE_FILE.test(f.name))?.name;
+};
+
+const GENERATED_PAGE = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"></head>
+<body><div id="root"></div></body></html>`;
+
+// Build a self-contained document for the preview iframe from the project's files
+export async function buildPreview(projectFiles: ProjectFile[]): Promise<PreviewBuild> {
+  const files = projectFiles.map(f => ({ ...f, name: normalizePath(f.name) }));
+  const byName = new Map(files.map(f => [f.name, f]));
+  const htmlFile = byName.get('index.html') || files.find(f => /(^|\/)index\.html?$/i.test(f.name)) || files.find(f => /\.html?$/i.test(f.name));
+
+  const { transform } = await import('sucrase');
+  const compiled = compileModules(transform, files);
+  const { factories, packages, errors } = compiled;
+  const entries: string[] = [];
+  const doc = new DOMParser().parseFromString(htmlFile?.content || GENERATED_PAGE, 'text/html');
+
+  if (htmlFile) {
+    doc.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"][href]').forEach(link => {
+      const css = byName.get(localPath(htmlFile.name, link.getAttribute('href')) || '');
+      if (!css) return;
+      const style = doc.createElement('style');
+      style.dataset.file = css.name;
+      style.textContent = css.content;
+      link.replaceWith(style);
+    });
+
+    doc.querySelectorAll<HTMLScriptElement>('script').forEach((script, index) => {
+      const src = script.getAttribute('src');
+      const file = src ? byName.get(localPath(htmlFile.name, src) || '') : undefined;
+      if (src && !file) return;
+      const isModule = script.type === 'module' || /\.(jsx|tsx|ts)$/i.test(file?.name || '') || script.type === 'text/babel';
+
+      if (file && isModule) {
+        entries.push(file.name);
+        script.remove();
+      } else if (file) {
+        // Classic scripts keep their globals, so they are inlined as they are
+        script.removeAttribute('src');
+        script.textContent = file.content;
+      } else if (isModule) {
+        // Inline module scripts become modules of their own
+        const name = `${htmlFile.name}#script-${index}.jsx`;
+        compileSource(transform, name, script.textContent || '', compiled);
+        entries.push(name);
+        script.remove();
+      }
+    });
+  } else {
+    const entry = findEntry(files);
+    const stylesheets = files.filter(f => /\.css$/i.test(f.name));
+
+    if (entry) {
+      const mounts = files.some(f => MODULE_FILE.test(f.name) && RENDER_CALL.test(f.content));
+      const usesReact = [...packages].some(spec => spec.startsWith('react')) || /\.(jsx|tsx)$/i.test(entry);
+      if (usesReact && !mounts) {
+        // A bare component file: render its default export into #root
+        factories['__preview_mount__.js'] = `const app = require(${JSON.stringify(`/${entry}`)});
+const Component = app.default || Object.values(app).find((value) => typeof value === 'function');
+if (!Component) throw new Error(${JSON.stringify(`${entry} has no component export to render`)});
+require('react-dom/client').createRoot(document.getElementById('root')).render(require('react').createElement(Component));`;
+        packages.add('react');
+        packages.add('react-dom/client');
+        entries.push('__preview_mount__.js');
+      } else {
+        entries.push(entry);
+      }
+      // Entry modules usually import their own CSS; loose stylesheets are only added for plain pages
+      if (!usesReact) stylesheets.forEach(css => entries.unshift(css.name));
+    } else if (stylesheets.length) {
+      stylesheets.forEach(css => entries.push(css.name));
+      doc.body.innerHTML = '<main style="padding:24px;font-family:system-ui"><h1>Heading</h1><p>Add an <code>index.html</code> to preview your markup with these styles.</p><button>Button</button></main>';
+    } else {
+      errors.push('Nothing to preview: add an index.html, a stylesheet or a React entry file');
+    }
+  }
+
+  const overlay = doc.createElement('script');
+  overlay.textContent = ERROR_OVERLAY;
+  doc.head.prepend(overlay);
+
+  if (entries.length) {
+    const versions = packageVersions(files);
+    const registry = Object.entries(factories)
+      .map(([name, code]) => `${JSON.stringify(name)}: function (module, exports, require) {\n${code}\n}`)
+      .join(',\n');
+    const packageUrls = Object.fromEntries([...packages].map(spec => [spec, packageUrl(spec, versions)]));
+
+    const runtime = doc.createElement('script');
+    runtime.textContent = escapeScript(`window.__preview = {
+  factories: {\n${registry}\n},
+  packages: ${JSON.stringify(packageUrls)},
+  entries: ${JSON.stringify(entries)}
+};
+${MODULE_RUNTIME}`);
+    doc.body.appendChild(runtime);
+  }
+
+  if (errors.length) {
+    const report = doc.createElement('script');
+    report.textContent = escapeScript(`window.__previewError(${JSON.stringify(errors.join('\n'))});`);
+    doc.body.appendChild(report);
+  }
+
+  return { html: `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`, errors };
+}
+
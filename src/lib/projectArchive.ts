@@ -0,0 +1,259 @@
+// src/lib/projectArchive.ts
+import JSZip from "jszip";
+import type { Project, ProjectFile } from "@/types/project";
+import { findLanguage, languageForPath } from "@/lib/languages";
+import { normalizePath } from "@/lib/projectFiles";
+import { downloadBlob } from "@/lib/download";
+
+// Project details kept in the archive so an import restores more than the files
+const METADATA_FILE = '.pandanexus.json';
+
+// Folders and files that are build output or tooling state, never project sources
+const IGNORED = /(^|\/)(node_modules|\.git|\.next|dist|build|__pycache__|\.venv|\.DS_Store|Thumbs\.db)(\/|$)/;
+
+const MAX_FILES = 500;
+const MAX_FILE_BYTES = 1024 * 1024;
+
+const JS_LANGUAGES = new Set(['javascript', 'typescript', 'react', 'nextjs', 'nodejs']);
+
+interface ArchiveMetadata {
+  name?: string;
+  description?: string;
+  language?: string;
+  createdAt?: string;
+}
+
+interface ArchiveEntry {
+  path: string;
+  size?: number;
+  read: () => Promise<Uint8Array>;
+}
+
+export const projectSlug = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'project';
+
+const hasFile = (project: Project, pattern: RegExp) => project.files.some(f => pattern.test(f.name));
+
+const entryFile = (project: Project, extensions: string) =>
+  project.files.find(f => new RegExp(`^(src/)?(index|main|app|server)\\.(${extensions})$`, 'i').test(f.name))?.name;
+
+// package.json for JavaScript-family projects that do not ship their own
+export function generatePackageJson(project: Project): string | null {
+  if (hasFile(project, /(^|\/)package\.json$/)) return null;
+  const usesReact = hasFile(project, /\.(jsx|tsx)$/) || project.language === 'react';
+  if (!JS_LANGUAGES.has(project.language) && !usesReact) return null;
+
+  const usesTypeScript = hasFile(project, /\.tsx?$/) || project.language === 'typescript' || project.language === 'nextjs';
+  const manifest: Record<string, unknown> = {
+    name: projectSlug(project.name),
+    version: '0.1.0',
+    private: true,
+    description: project.description,
+  };
+
+  if (project.language === 'nextjs') {
+    manifest.scripts = { dev: 'next dev', build: 'next build', start: 'next start' };
+    manifest.dependencies = { next: '^14.2.0', react: '^18.3.1', 'react-dom': '^18.3.1' };
+    manifest.devDependencies = { typescript: '^5.5.0', '@types/react': '^18.3.0', '@types/node': '^22.0.0' };
+  } else if (usesReact) {
+    manifest.type = 'module';
+    manifest.scripts = { dev: 'vite', build: 'vite build', preview: 'vite preview' };
+    manifest.dependencies = { react: '^18.3.1', 'react-dom': '^18.3.1' };
+    manifest.devDependencies = {
+      vite: '^5.4.0',
+      '@vitejs/plugin-react': '^4.3.0',
+      ...(usesTypeScript ? { typescript: '^5.5.0', '@types/react': '^18.3.0', '@types/react-dom': '^18.3.0' } : {}),
+    };
+  } else if (usesTypeScript) {
+    const entry = entryFile(project, 'ts|mts') || 'index.ts';
+    manifest.type = 'module';
+    manifest.scripts = { start: `tsx ${entry}`, build: 'tsc' };
+    manifest.devDependencies = { tsx: '^4.16.0', typescript: '^5.5.0', '@types/node': '^22.0.0' };
+  } else {
+    const entry = entryFile(project, 'js|mjs|cjs') || 'index.js';
+    manifest.main = entry;
+    manifest.scripts = { start: `node ${entry}` };
+  }
+
+  return `${JSON.stringify(manifest, null, 2)}\n`;
+}
+
+const gettingStarted = (project: Project): string[] => {
+  if (JS_LANGUAGES.has(project.language) || hasFile(project, /(^|\/)package\.json$/)) {
+    const script = project.language === 'nextjs' || project.language === 'react' || hasFile(project, /\.(jsx|tsx)$/) ? 'dev' : 'start';
+    return ['```bash', 'npm install', `npm run ${script}`, '```'];
+  }
+  if (project.language === 'python') {
+    const entry = entryFile(project, 'py') || 'main.py';
+    return ['```bash', ...(hasFile(project, /^requirements\.txt$/) ? ['pip install -r requirements.txt'] : []), `python ${entry}`, '```'];
+  }
+  if (project.language === 'html' || project.language === 'css') {
+    return ['Open `index.html` in a browser.'];
+  }
+  return [];
+};
+
+export function generateReadme(project: Project): string {
+  const label = findLanguage(project.language)?.label || project.language;
+  const steps = gettingStarted(project);
+  return [
+    `# ${project.name}`,
+    '',
+    project.description,
+    '',
+    `**Language:** ${label}`,
+    '',
+    '## Files',
+    '',
+    ...project.files.map(f => `- \`${f.name}\``),
+    ...(steps.length ? ['', '## Getting started', '', ...steps] : []),
+    '',
+    '_Exported from PandaNexus Code Studio._',
+    '',
+  ].join('\n');
+}
+
+// Project files plus the generated README and manifest, without overriding the project's own
+export function archiveFiles(project: Project): ProjectFile[] {
+  const files = [...project.files];
+  if (!hasFile(project, /^readme(\.md)?$/i)) {
+    files.push({ name: 'README.md', content: generateReadme(project), language: 'markdown' });
+  }
+  const manifest = generatePackageJson(project);
+  if (manifest) files.push({ name: 'package.json', content: manifest, language: 'json' });
+  return files;
+}
+
+export async function exportProjectZip(project: Project): Promise<Blob> {
+  const zip = new JSZip();
+  const root = zip.folder(projectSlug(project.name))!;
+
+  for (const file of archiveFiles(project)) {
+    root.file(file.name, file.content);
+  }
+
+  const metadata: ArchiveMetadata = {
+    name: project.name,
+    description: project.description,
+    language: project.language,
+    createdAt: new Date(project.createdAt).toISOString(),
+  };
+  root.file(METADATA_FILE, JSON.stringify(metadata, null, 2));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+export async function downloadProjectZip(project: Project): Promise<void> {
+  downloadBlob(await exportProjectZip(project), `${projectSlug(project.name)}.zip`);
+}
+
+// Text files only: binary assets cannot be edited or stored as project files
+const decodeText = (bytes: Uint8Array): string | null => {
+  if (bytes.includes(0)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+};
+
+// Drop a single wrapping folder such as `my-app/` and use it as the project name
+const stripCommonRoot = (paths: string[]): { root?: string; strip: (path: string) => string } => {
+  const first = paths[0]?.split('/')[0];
+  if (!first || paths.some(path => !path.startsWith(`${first}/`))) return { strip: path => path };
+  return { root: first, strip: path => path.slice(first.length + 1) };
+};
+
+const dominantLanguage = (files: ProjectFile[]): string => {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const value = findLanguage(file.language)?.value;
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 'javascript';
+};
+
+async function projectFromEntries(entries: ArchiveEntry[], fallbackName: string): Promise<{ project: Project; skipped: number }> {
+  // Paths escaping the archive root are never unpacked
+  const safe = entries
+    .map(entry => ({ ...entry, path: normalizePath(entry.path) }))
+    .filter(entry => entry.path && !entry.path.split('/').includes('..'));
+  const { root, strip } = stripCommonRoot(safe.map(entry => entry.path));
+  const usable = safe
+    .map(entry => ({ ...entry, path: strip(entry.path) }))
+    .filter(entry => !IGNORED.test(entry.path));
+
+  const files: ProjectFile[] = [];
+  let metadata: ArchiveMetadata = {};
+  let skipped = 0;
+
+  for (const entry of usable) {
+    const path = entry.path;
+    if (files.length >= MAX_FILES || (entry.size ?? 0) > MAX_FILE_BYTES) {
+      skipped++;
+      continue;
+    }
+
+    const bytes = await entry.read();
+    const content = bytes.length > MAX_FILE_BYTES ? null : decodeText(bytes);
+    if (content === null) {
+      skipped++;
+      continue;
+    }
+
+    if (path === METADATA_FILE) {
+      try {
+        metadata = JSON.parse(content);
+      } catch {
+        // A damaged metadata file only loses the project details
+      }
+      continue;
+    }
+
+    files.push({ name: path, content, language: languageForPath(path) || 'plaintext' });
+  }
+
+  if (files.length === 0) throw new Error('No text files found to import');
+
+  const name = metadata.name || root || fallbackName;
+  const language = findLanguage(metadata.language)?.value || dominantLanguage(files);
+  const createdAt = metadata.createdAt ? new Date(metadata.createdAt) : new Date();
+
+  return {
+    project: {
+      id: Date.now().toString(),
+      name,
+      description: metadata.description || `${findLanguage(language)?.label || language} project imported into PandaNexus`,
+      language,
+      files,
+      createdAt: isNaN(createdAt.getTime()) ? new Date() : createdAt,
+    },
+    skipped,
+  };
+}
+
+export async function importProjectZip(archive: File): Promise<{ project: Project; skipped: number }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch {
+    throw new Error(`${archive.name} is not a valid zip archive`);
+  }
+
+  const entries: ArchiveEntry[] = Object.values(zip.files)
+    .filter(entry => !entry.dir)
+    .map(entry => ({ path: entry.name, read: () => entry.async('uint8array') }));
+
+  return projectFromEntries(entries, archive.name.replace(/\.zip$/i, ''));
+}
+
+// Files picked through a directory input carry their folder in webkitRelativePath
+export async function importProjectFolder(files: File[]): Promise<{ project: Project; skipped: number }> {
+  const entries: ArchiveEntry[] = files.map(file => ({
+    path: file.webkitRelativePath || file.name,
+    size: file.size,
+    read: async () => new Uint8Array(await file.arrayBuffer()),
+  }));
+
+  return projectFromEntries(entries, 'Imported project');
+}
@@ -0,0 +1,83 @@
+// src/lib/projectFiles.ts
+import type { Project, ProjectFile } from "@/types/project";
+import { languageForPath } from "@/lib/languages";
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  // Folders have children, files have a file
+  children?: FileTreeNode[];
+  file?: ProjectFile;
+}
+
+export const normalizePath = (path: string) =>
+  path.trim().replace(/\\/g, '/').replace(/^\.?\/+/, '').replace(/\/{2,}/g, '/');
+
+// Nest flat "a/b/c.ts" file names into folders, folders first then alphabetical
+export function buildFileTree(files: ProjectFile[]): FileTreeNode[] {
+  const root: FileTreeNode = { name: '', path: '', children: [] };
+
+  for (const file of files) {
+    const parts = file.name.split('/');
+    let node = root;
+    parts.forEach((part, index) => {
+      const path = parts.slice(0, index + 1).join('/');
+      if (index === parts.length - 1) {
+        node.children!.push({ name: part, path, file });
+        return;
+      }
+      let folder = node.children!.find(child => child.children && child.name === part);
+      if (!folder) {
+        folder = { name: part, path, children: [] };
+        node.children!.push(folder);
+      }
+      node = folder;
+    });
+  }
+
+  const sort = (nodes: FileTreeNode[]): FileTreeNode[] => nodes
+    .sort((a, b) => (a.children ? 0 : 1) - (b.children ? 0 : 1) || a.name.localeCompare(b.name))
+    .map(node => (node.children ? { ...node, children: sort(node.children) } : node));
+
+  return sort(root.children!);
+}
+
+export function validateFileName(project: Project, name: string, currentName?: string): string | null {
+  const path = normalizePath(name);
+  if (!path || path.endsWith('/')) return 'File name is required';
+  if (path.split('/').some(part => part === '..' || part === '.')) return 'Relative segments are not allowed';
+  if (path !== currentName && project.files.some(f => f.name === path)) return `${path} already exists`;
+  // A file cannot share a path with a folder
+  if (project.files.some(f => f.name.startsWith(`${path}/`) || path.startsWith(`${f.name}/`))) {
+    return `${path} clashes with an existing folder`;
+  }
+  return null;
+}
+
+export function addFile(project: Project, name: string, content = ''): Project {
+  const path = normalizePath(name);
+  const file: ProjectFile = { name: path, content, language: languageForPath(path) || project.language };
+  return { ...project, files: [...project.files, file] };
+}
+
+export function updateFileContent(project: Project, name: string, content: string): Project {
+  return { ...project, files: project.files.map(f => (f.name === name ? { ...f, content } : f)) };
+}
+
+export function renameFile(project: Project, from: string, to: string): Project {
+  const path = normalizePath(to);
+  return {
+    ...project,
+    files: project.files.map(f => (f.name === from ? { ...f, name: path, language: languageForPath(path) || f.language } : f))
+  };
+}
+
+export function deleteFile(project: Project, name: string): Project {
+  return { ...project, files: project.files.filter(f => f.name !== name) };
+}
+
+// Add or replace files by name
+export function upsertFiles(project: Project, files: ProjectFile[]): Project {
+  const incoming = new Set(files.map(f => f.name));
+  return { ...project, files: [...project.files.filter(f => !incoming.has(f.name)), ...files] };
+}
@@ -0,0 +1,210 @@
+// src/lib/sandbox.ts
+
+export type OutputLevel = 'log' | 'info' | 'warn' | 'error' | 'debug' | 'system';
+
+export interface OutputLine {
+  level: OutputLevel;
+  text: string;
+}
+
+export type RunStatus = 'running' | 'success' | 'error' | 'timeout' | 'stopped';
+
+export interface RunResult {
+  status: Exclude<RunStatus, 'running'>;
+  durationMs: number;
+}
+
+export interface SandboxRun {
+  result: Promise<RunResult>;
+  stop: () => void;
+}
+
+interface RunOptions {
+  filename?: string;
+  timeoutMs?: number;
+  maxLines?: number;
+  onOutput: (line: OutputLine) => void;
+}
+
+const RUNNABLE_LANGUAGES = new Set(['javascript', 'typescript', 'nodejs']);
+
+export const isRunnable = (language: string, filename?: string) =>
+  RUNNABLE_LANGUAGES.has(language) || /\.(m?[jt]s|cjs)$/i.test(filename || '');
+
+// Console capture, error formatting and timer tracking, prepended to the user's code inside the worker.
+// The run is over once the main body has settled and no timers are pending.
+const WORKER_PRELUDE = `
+const send = (message) => postMessage(message);
+const format = (value, depth = 0, seen = new WeakSet()) => {
+  if (typeof value === 'string') return depth ? JSON.stringify(value) : value;
+  if (typeof value === 'function') return '[Function ' + (value.name || 'anonymous') + ']';
+  if (typeof value === 'symbol' || typeof value === 'bigint') return value.toString() + (typeof value === 'bigint' ? 'n' : '');
+  if (value instanceof Error) return value.stack || (value.name + ': ' + value.message);
+  if (value === null || typeof value !== 'object') return String(value);
+  if (seen.has(value)) return '[Circular]';
+  if (depth > 3) return Array.isArray(value) ? '[Array]' : '[Object]';
+  seen.add(value);
+  if (Array.isArray(value)) return '[ ' + value.map(v => format(v, depth + 1, seen)).join(', ') + ' ]';
+  if (value instanceof Map) return 'Map(' + value.size + ') { ' + [...value].map(([k, v]) => format(k, depth + 1, seen) + ' => ' + format(v, depth + 1, seen)).join(', ') + ' }';
+  if (value instanceof Set) return 'Set(' + value.size + ') { ' + [...value].map(v => format(v, depth + 1, seen)).join(', ') + ' }';
+  if (value instanceof Date) return value.toISOString();
+  const name = value.constructor && value.constructor !== Object ? value.constructor.name + ' ' : '';
+  const entries = Object.keys(value).map(key => key + ': ' + format(value[key], depth + 1, seen));
+  return name + '{ ' + entries.join(', ') + ' }';
+};
+for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+  console[level] = (...args) => send({ type: 'output', level, text: args.map(arg => format(arg)).join(' ') });
+}
+console.table = console.log;
+console.dir = (value) => console.log(value);
+
+let settled = false;
+const pending = new Set();
+const finish = () => {
+  if (settled && pending.size === 0) send({ type: 'done' });
+};
+const wrapTimer = (set, clear, repeat) => {
+  self[set.name] = (callback, ...rest) => {
+    const id = set((...args) => {
+      if (!repeat) pending.delete(id);
+      try {
+        typeof callback === 'function' && callback(...args);
+      } catch (error) {
+        send({ type: 'error', text: format(error) });
+      } finally {
+        finish();
+      }
+    }, ...rest);
+    pending.add(id);
+    return id;
+  };
+  self[clear.name] = (id) => {
+    pending.delete(id);
+    clear(id);
+    finish();
+  };
+};
+wrapTimer(setTimeout, clearTimeout, false);
+wrapTimer(setInterval, clearInterval, true);
+
+self.addEventListener('error', (event) => {
+  event.preventDefault();
+  send({ type: 'error', text: format(event.error || event.message) });
+});
+self.addEventListener('unhandledrejection', (event) => {
+  event.preventDefault();
+  send({ type: 'error', text: 'Uncaught (in promise) ' + format(event.reason) });
+});
+
+const module = { exports: {} };
+const exports = module.exports;
+const require = (name) => {
+  throw new Error('Cannot import "' + name + '": only self-contained code runs in the sandbox');
+};
+`;
+
+const workerSource = (code: string) => `${WORKER_PRELUDE}
+(async () => {
+${code}
+})().then(
+  () => { settled = true; finish(); },
+  (error) => { send({ type: 'error', text: format(error) }); send({ type: 'done' }); }
+);
+`;
+
+// The iframe has an opaque origin, so neither it nor its worker can reach the app's storage or DOM.
+// Removing the iframe ends the worker, which is how timeouts and stops are enforced.
+const frameDocument = (runId: string, source: string) => {
+  // JSON with `<` escaped cannot close the script tag early
+  const embed = (value: string) => JSON.stringify(value).replace(/</g, '\\u003c');
+  return `<!DOCTYPE html><html><body><script>
+const relay = (data) => parent.postMessage(Object.assign({ sandboxRun: ${embed(runId)} }, data), '*');
+try {
+  const worker = new Worker(URL.createObjectURL(new Blob([${embed(source)}], { type: 'text/javascript' })));
+  worker.onmessage = (event) => relay(event.data);
+  worker.onerror = (event) => {
+    event.preventDefault();
+    relay({ type: 'error', text: event.message || 'Script error' });
+    relay({ type: 'done' });
+  };
+} catch (error) {
+  relay({ type: 'error', text: String(error) });
+  relay({ type: 'done' });
+}
+</script></body></html>`;
+};
+
+// Strip TypeScript syntax and turn ES module syntax into plain statements
+export async function compileForSandbox(code: string, language: string, filename?: string): Promise<string> {
+  const { transform } = await import('sucrase');
+  const transforms: ('typescript' | 'jsx' | 'imports')[] = ['imports'];
+  if (language === 'typescript' || /\.tsx?$/i.test(filename || '')) transforms.push('typescript');
+  if (/\.[jt]sx$/i.test(filename || '')) transforms.push('jsx');
+  return transform(code, { transforms, filePath: filename, production: true }).code;
+}
+
+// Blob URLs in stack traces only add noise
+const cleanStack = (text: string) => text.replace(/blob:[^\s)]+?:(\d+:\d+)/g, 'sandbox:$1');
+
+export function runInSandbox(code: string, language: string, options: RunOptions): SandboxRun {
+  const { filename, timeoutMs = 5000, maxLines = 500, onOutput } = options;
+  const runId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  const startedAt = performance.now();
+
+  let frame: HTMLIFrameElement | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let lineCount = 0;
+  let finish: (status: RunResult['status']) => void = () => {};
+
+  const emit = (line: OutputLine) => {
+    lineCount++;
+    if (lineCount < maxLines) onOutput(line);
+    else if (lineCount === maxLines) onOutput({ level: 'system', text: `Output truncated after ${maxLines} lines` });
+  };
+
+  const result = new Promise<RunResult>(resolve => {
+    let done = false;
+    let failed = false;
+
+    const onMessage = (event: MessageEvent) => {
+      if (!frame || event.source !== frame.contentWindow || event.data?.sandboxRun !== runId) return;
+      const { type, level, text } = event.data as { type: string; level?: OutputLevel; text?: string };
+      if (type === 'output') emit({ level: level || 'log', text: text ?? '' });
+      if (type === 'error') {
+        failed = true;
+        emit({ level: 'error', text: cleanStack(text ?? 'Unknown error') });
+      }
+      if (type === 'done') finish(failed ? 'error' : 'success');
+    };
+
+    finish = (status) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      window.removeEventListener('message', onMessage);
+      frame?.remove();
+      frame = null;
+      if (status === 'timeout') onOutput({ level: 'system', text: `Stopped after ${timeoutMs / 1000}s timeout` });
+      if (status === 'stopped') onOutput({ level: 'system', text: 'Stopped' });
+      resolve({ status, durationMs: Math.round(performance.now() - startedAt) });
+    };
+
+    compileForSandbox(code, language, filename)
+      .then(compiled => {
+        if (done) return;
+        window.addEventListener('message', onMessage);
+        frame = document.createElement('iframe');
+        frame.setAttribute('sandbox', 'allow-scripts');
+        frame.style.display = 'none';
+        frame.srcdoc = frameDocument(runId, workerSource(compiled));
+        document.body.appendChild(frame);
+        timer = setTimeout(() => finish('timeout'), timeoutMs);
+      })
+      .catch((error: Error) => {
+        emit({ level: 'error', text: `SyntaxError: ${error.message}` });
+        finish('error');
+      });
+  });
+
+  return { result, stop: () => finish('stopped') };
+}
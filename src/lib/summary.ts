@@ -0,0 +1,60 @@
+// src/lib/summary.ts
+import type { AIMessage } from "@/services/aiService";
+import type { ConversationSummary, Message } from "@/types/chat";
+import type { ContextWindow } from "@/lib/context";
+
+// Latest turns that are never folded into the summary
+export const KEEP_RECENT = 6;
+// Share of the prompt budget in use that starts a new round of summarizing
+export const SUMMARY_TRIGGER = 0.75;
+// Per-message cap in the transcript handed to the summarizer
+const TRANSCRIPT_MESSAGE_CHARS = 4000;
+
+// How many leading messages the summary covers; 0 once its last message is gone
+export const summarizedCount = (messages: Message[], summary?: ConversationSummary): number =>
+  summary ? messages.findIndex(m => m.id === summary.throughId) + 1 : 0;
+
+// The summary, if it still matches the thread
+export const currentSummary = (messages: Message[], summary?: ConversationSummary) =>
+  summarizedCount(messages, summary) > 0 ? summary : undefined;
+
+// Messages still sent verbatim: everything after the summary, plus pinned ones
+export const historyAfterSummary = (messages: Message[], summary?: ConversationSummary): Message[] => {
+  const count = summarizedCount(messages, summary);
+  return messages.filter((m, i) => i >= count || m.pinned);
+};
+
+// Older unsummarized turns to fold in, once the window is filling up or when forced
+export const messagesToSummarize = (
+  messages: Message[],
+  summary: ConversationSummary | undefined,
+  context: ContextWindow,
+  force = false
+): Message[] => {
+  const filling = context.dropped > 0 || context.usedTokens > context.budget * SUMMARY_TRIGGER;
+  if (!filling && !force) return [];
+  const pending = messages
+    .slice(summarizedCount(messages, summary), Math.max(messages.length - KEEP_RECENT, 0))
+    .filter(m => !m.isStreaming);
+  return pending.length >= 2 ? pending : [];
+};
+
+const transcript = (messages: Message[]) =>
+  messages
+    .map(m => {
+      const text = m.content.length > TRANSCRIPT_MESSAGE_CHARS ? `${m.content.slice(0, TRANSCRIPT_MESSAGE_CHARS)}…` : m.content;
+      return `${m.role === 'user' ? 'User' : 'Assistant'}: ${text}${m.image ? ' [image]' : ''}`;
+    })
+    .join('\n\n');
+
+// Ask the model to extend the running summary with the given turns
+export const summaryRequest = (previous: string | undefined, messages: Message[]): AIMessage[] => [
+  {
+    role: 'system',
+    content: 'You maintain a running summary of a chat so it can continue without the full history. Keep names, decisions, facts, code identifiers, open questions and the user\'s preferences; drop pleasantries. Write compact bullet points, at most 250 words. Reply with the summary only.',
+  },
+  {
+    role: 'user',
+    content: `${previous ? `Current summary:\n${previous}\n\nAdd these later messages to it:` : 'Summarize these messages:'}\n\n${transcript(messages)}`,
+  },
+];
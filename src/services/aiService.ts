@@ -1,8 +1,18 @@
 // src/services/aiService.ts
+import { AIProvider, PROVIDER_KEYS, ProviderConfig, ProviderError, ProviderRequest, backoffDelay, createProvider, keyRequired, providerConfigFromEnv, sleep } from "./providers";
+import { CircuitBreaker, CircuitOpenError, canFallBack, isProviderFailure, isRetryableStatus, resilience } from "./resilience";
+import { keyVault } from "./keyVault";
+import { findModel, modelRouter, modelsFor } from "./models";
+import { DEFAULT_PARAMS, generationPresets } from "./generation";
+import { DEFAULT_CONTEXT_WINDOW, buildContext, type ContextWindow } from "@/lib/context";
+import type { GenerationParams, RoutedService, ServiceType } from "@/types/chat";
+
 export interface AIMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
   image?: string;
+  // Kept in the context window however long the history grows
+  pinned?: boolean;
 }
 
 export interface AIResponse {
@@ -12,11 +22,40 @@ export interface AIResponse {
   error?: string;
 }
 
+export interface AIRequestOptions {
+  // Overrides the model routed for the service
+  model?: string;
+  // Overrides the service's parameter preset
+  params?: Partial<GenerationParams>;
+  // System prompt sent ahead of the conversation
+  system?: string;
+  // Summary standing in for turns left out of `messages`
+  summary?: string;
+  // Skip canned and cached replies, e.g. when regenerating
+  fresh?: boolean;
+  // What the request belongs to, e.g. a conversation id, so the UI can find it in flight
+  owner?: string;
+}
+
+// One request in flight. Cancelling it leaves every other request running.
+export interface AIRequestHandle {
+  readonly id: string;
+  readonly service: string;
+  readonly owner?: string;
+  readonly startedAt: number;
+  // Settles once the reply has finished, failed or been cancelled
+  readonly done: Promise<void>;
+  cancel(): void;
+}
+
 export interface AIStreamChunk {
   chunk: string;
   isFinal: boolean;
   error?: string;
+  // The model that answered
   model?: string;
+  // Set when that model stood in for the one requested, after it failed
+  fallbackFrom?: string;
 }
 
 // Ultra-fast response cache with quantum optimization
@@ -109,6 +148,9 @@ class QuantumResponseCache {
 
 const quantumCache = new QuantumResponseCache(2000);
 
+// Reported as the error of the chunk sent instead of a reply when no key is configured
+export const NO_API_KEY = 'No API key configured';
+
 // Lightning-fast instant responses
 const instantResponses: {pattern: RegExp, response: string}[] = [
   { pattern: /^(hello|hi|hey|greetings|good morning|good afternoon|good evening)/i, response: "⚡ Hello! I'm PandaNexus AI, the world's fastest AI assistant created by Shakeel. How can I help you today?" },
@@ -120,29 +162,83 @@ const instantResponses: {pattern: RegExp, response: string}[] = [
 ];
 
 export class AIService {
-  private baseUrl = "https://openrouter.ai/api/v1";
-  private abortController: AbortController | null = null;
-  private isConnected = false;
-
-  constructor() {
+  private provider: AIProvider;
+  private requests = new Map<string, AIRequestHandle>();
+  private requestSnapshot: AIRequestHandle[] = [];
+  private requestListeners = new Set<() => void>();
+  private requestSeq = 0;
+  // One breaker per endpoint, so switching providers starts from a clean slate
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(config: ProviderConfig = providerConfigFromEnv()) {
+    this.provider = createProvider(this.withStoredKey(config));
     console.log('🚀 PandaNexus AI Service - Quantum Speed Initialized');
-    console.log('📡 API Endpoint:', this.baseUrl);
-    this.checkConnection();
+    console.log('📡 Provider:', this.provider.label, this.provider.config.baseUrl);
+    keyVault.subscribe(() => this.applyStoredKey());
+    modelRouter.load();
+    generationPresets.load();
+    resilience.load();
   }
 
-  // Check API connection
-  private async checkConnection(): Promise<void> {
-    try {
-      const response = await fetch(`${this.baseUrl}api/health`, {
-        method: 'GET',
-        timeout: 5000
-      } as any);
-      this.isConnected = response.ok;
-      console.log(this.isConnected ? '✅ API Connected' : '❌ API Disconnected');
-    } catch (error) {
-      this.isConnected = false;
-      console.log('❌ API Connection Failed');
-    }
+  // Swap the active provider, e.g. to point at a different gateway or a local stub
+  setProvider(config: ProviderConfig): void {
+    this.cancelRequest();
+    this.provider = createProvider(this.withStoredKey(config));
+    quantumCache.clear();
+    console.log('📡 Provider switched:', this.provider.label, this.provider.config.baseUrl);
+  }
+
+  getProviderConfig(): ProviderConfig {
+    return this.provider.config;
+  }
+
+  // Keys come from the user's vault, never from the bundle
+  private withStoredKey(config: ProviderConfig): ProviderConfig {
+    return { ...config, apiKey: config.apiKey || keyVault.getKey(config.id) };
+  }
+
+  // Follow the vault as it is unlocked, locked or edited
+  private applyStoredKey(): void {
+    const apiKey = keyVault.getKey(this.provider.id);
+    if (apiKey === this.provider.config.apiKey) return;
+    this.provider = createProvider({ ...this.provider.config, apiKey });
+  }
+
+  // The model that will answer: an explicit choice, else the route for the service.
+  // Images need a vision model, so a text-only pick falls back to one that can see.
+  resolveModel(service: string, override?: string, hasImage = false): string {
+    const model = override || modelRouter.modelFor(this.provider.config, service as ServiceType);
+    if (!hasImage || findModel(model, this.provider.id)?.vision !== false) return model;
+    return modelsFor(this.provider.id).find(m => m.vision)?.id ?? model;
+  }
+
+  // Sampling settings for the service; Auto falls back to the general preset
+  resolveParams(service: string, overrides?: Partial<GenerationParams>): GenerationParams {
+    const preset = (service === 'auto' ? 'general' : service) as RoutedService;
+    return generationPresets.paramsFor(preset, overrides);
+  }
+
+  // The system prompt and as much history as fits the model's window, leaving room for the reply
+  buildContext(messages: AIMessage[], service: string, options: AIRequestOptions = {}): ContextWindow {
+    const model = this.resolveModel(service, options.model, messages.some(m => m.image));
+    return buildContext({
+      messages,
+      system: options.system,
+      summary: options.summary,
+      contextWindow: findModel(model, this.provider.id)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW,
+      reserveTokens: this.resolveParams(service, options.params).maxTokens,
+    });
+  }
+
+  hasApiKey(): boolean {
+    return !keyRequired(this.provider.config) || !!this.provider.config.apiKey;
+  }
+
+  private noKeyMessage(): string {
+    const label = PROVIDER_KEYS[this.provider.id]?.label ?? this.provider.label;
+    return keyVault.getSnapshot().state === 'locked'
+      ? `🔒 **API keys are locked**\n\nUnlock your saved keys under **Settings → API Keys** to continue chatting with ${label}.`
+      : `🔑 **No API key configured**\n\nAdd your ${label} key under **Settings → API Keys**. It is encrypted with your passphrase and never leaves this browser except to call ${label}.`;
   }
 
   // Ultra-fast hash for cache keys
@@ -174,70 +270,116 @@ export class AIService {
     return null;
   }
 
-  // Cancel any ongoing request
-  cancelRequest(): void {
-    if (this.abortController) {
-      this.abortController.abort();
-      this.abortController = null;
-      console.log('⏹️ Request cancelled');
+  // Cancel one request, or every request in flight
+  cancelRequest(id?: string): void {
+    for (const request of this.requests.values()) {
+      if (!id || request.id === id) request.cancel();
     }
   }
 
-  // Revolutionary streaming with ultra-high speed
-  async sendMessageStream(
+  // Requests in flight, oldest first
+  subscribeRequests = (listener: () => void): (() => void) => {
+    this.requestListeners.add(listener);
+    return () => this.requestListeners.delete(listener);
+  };
+
+  activeRequests = () => this.requestSnapshot;
+
+  // Register a request with its own abort signal; it leaves the registry once `run` settles
+  private track<T>(service: string, owner: string | undefined, run: (signal: AbortSignal) => Promise<T>): { handle: AIRequestHandle; result: Promise<T> } {
+    const controller = new AbortController();
+    const id = `request-${++this.requestSeq}`;
+    const result = run(controller.signal).finally(() => {
+      this.requests.delete(id);
+      this.publishRequests();
+    });
+    const handle: AIRequestHandle = {
+      id,
+      service,
+      owner,
+      startedAt: Date.now(),
+      done: result.then(() => undefined, () => undefined),
+      cancel: () => {
+        if (controller.signal.aborted) return;
+        controller.abort();
+        console.log('⏹️ Request cancelled');
+      }
+    };
+    this.requests.set(id, handle);
+    this.publishRequests();
+    return { handle, result };
+  }
+
+  private publishRequests(): void {
+    this.requestSnapshot = [...this.requests.values()];
+    this.requestListeners.forEach(listener => listener());
+  }
+
+  // Revolutionary streaming with ultra-high speed. Returns at once with a handle for
+  // cancelling this request alone; other requests keep streaming.
+  sendMessageStream(
     messages: AIMessage[], 
     service: string = 'auto',
-    onChunk: (chunk: AIStreamChunk) => void
-  ): Promise<void> {
+    onChunk: (chunk: AIStreamChunk) => void,
+    options: AIRequestOptions = {}
+  ): AIRequestHandle {
     
     if (typeof onChunk !== 'function') {
       console.error('❌ onChunk callback is not a function');
       throw new Error('onChunk callback must be a function');
     }
-    
-    // Lightning-fast instant responses
-    const lastMessage = messages[messages.length - 1];
-    const instantResponse = this.checkInstantResponse(lastMessage.content);
-    
-    if (instantResponse) {
-      console.log('⚡ Quantum instant response activated');
-      const words = instantResponse.split(' ');
-      for (let i = 0; i < words.length; i++) {
-        await new Promise(resolve => setTimeout(resolve, 8)); // Ultra-fast typing
-        
-        if (typeof onChunk === 'function') {
+
+    return this.track(service, options.owner, signal => this.streamReply(messages, service, onChunk, options, signal)).handle;
+  }
+
+  private async streamReply(
+    messages: AIMessage[],
+    service: string,
+    onChunk: (chunk: AIStreamChunk) => void,
+    options: AIRequestOptions,
+    signal: AbortSignal
+  ): Promise<void> {
+    try {
+      // Lightning-fast instant responses
+      const lastMessage = messages[messages.length - 1];
+      const instantResponse = options.fresh ? null : this.checkInstantResponse(lastMessage.content);
+      
+      if (instantResponse) {
+        console.log('⚡ Quantum instant response activated');
+        const words = instantResponse.split(' ');
+        for (let i = 0; i < words.length; i++) {
+          await sleep(8, signal); // Ultra-fast typing
+          
           onChunk({
             chunk: words[i] + (i < words.length - 1 ? ' ' : ''),
             isFinal: i === words.length - 1,
             model: 'PandaNexus-Quantum'
           });
         }
+        return;
       }
-      return;
-    }
 
-    // Check quantum cache
-    const cacheKey = this.getCacheKey(messages, service);
-    const cachedResponse = quantumCache.get(cacheKey);
-    
-    if (cachedResponse) {
-      console.log('⚡ Quantum cache hit - instant delivery');
-      const words = cachedResponse.content.split(' ');
-      for (let i = 0; i < words.length; i++) {
-        await new Promise(resolve => setTimeout(resolve, 5)); // Even faster for cached
-        
-        if (typeof onChunk === 'function') {
+      // Check quantum cache
+      const model = this.resolveModel(service, options.model, messages.some(m => m.image));
+      const params = this.resolveParams(service, options.params);
+      const cacheKey = this.getCacheKey(messages, `${service}:${model}:${JSON.stringify(params)}:${options.system ?? ''}:${options.summary ?? ''}`);
+      const cachedResponse = options.fresh ? null : quantumCache.get(cacheKey);
+      
+      if (cachedResponse) {
+        console.log('⚡ Quantum cache hit - instant delivery');
+        const words = cachedResponse.content.split(' ');
+        for (let i = 0; i < words.length; i++) {
+          await sleep(5, signal); // Even faster for cached
+          
           onChunk({
             chunk: words[i] + (i < words.length - 1 ? ' ' : ''),
             isFinal: i === words.length - 1,
             model: cachedResponse.model || 'PandaNexus-Cache'
           });
         }
+        return;
       }
-      return;
-    }
 
-    try {
       // Handle image generation with lightning speed
       const isImageGeneration = /generate.*image|create.*image|make.*image|draw|picture|photo|art|visual/i.test(lastMessage.content);
       
@@ -245,128 +387,148 @@ export class AIService {
         const prompt = lastMessage.content.replace(/generate|create|make|draw/gi, '').trim();
         const response = `🎨 **Creating your AI masterpiece...**\n\nGenerating: "${prompt}"\n\n✨ Using advanced AI art algorithms for stunning results!`;
         
-        if (typeof onChunk === 'function') {
-          onChunk({
-            chunk: response,
-            isFinal: true,
-            model: 'PandaNexus-ArtEngine'
-          });
-        }
+        onChunk({
+          chunk: response,
+          isFinal: true,
+          model: 'PandaNexus-ArtEngine'
+        });
         return;
       }
 
-      this.abortController = new AbortController();
-      
-      // Ultra-fast API call with optimized payload
-      const response = await fetch(`${this.baseUrl}api/chat/stream`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-        },
-        body: JSON.stringify({
-          messages: messages.slice(-10), // Only send last 10 messages for speed
-          service,
-          stream: true,
-          temperature: 0.7,
-          max_tokens: 2000
-        }),
-        signal: this.abortController.signal
-      });
-
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status}`);
+      if (!this.hasApiKey()) {
+        onChunk({ chunk: this.noKeyMessage(), isFinal: true, error: NO_API_KEY });
+        return;
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No reader available');
-
-      const decoder = new TextDecoder();
-      let buffer = '';
-      let modelName = 'PandaNexus-Pro';
-      let fullContent = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        buffer += chunk;
-        
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-        
-        for (const line of lines) {
-          if (line.trim() === '' || line.trim() === 'data: [DONE]') continue;
-          
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              if (data.error) {
-                throw new Error(data.error);
-              }
-
-              if (data.response) {
-                fullContent += data.response;
-                onChunk({
-                  chunk: data.response,
-                  isFinal: false,
-                  model: data.model || modelName
-                });
-                
-                if (data.model) {
-                  modelName = data.model;
-                }
-              }
-
-              if (data.done) {
-                onChunk({
-                  chunk: '',
-                  isFinal: true,
-                  model: modelName
-                });
-                
-                // Cache the complete response
-                quantumCache.set(cacheKey, {
-                  content: fullContent,
-                  model: modelName
-                });
-                return;
-              }
-            } catch (e) {
-              console.error('Stream parse error:', e);
-            }
-          }
-        }
+      const response = await this.streamWithFallbacks({
+        messages: this.buildContext(messages, service, options).messages,
+        service,
+        model,
+        ...params,
+        signal
+      }, onChunk);
+
+      // Cache the complete response
+      if (response.content) {
+        quantumCache.set(cacheKey, response);
       }
     } catch (error: any) {
       if (error.name === 'AbortError') {
-        if (typeof onChunk === 'function') {
-          onChunk({
-            chunk: '⏹️ Request stopped by user',
-            isFinal: true,
-            error: "Request cancelled"
-          });
-        }
+        onChunk({
+          chunk: '⏹️ Request stopped by user',
+          isFinal: true,
+          error: "Request cancelled"
+        });
         return;
       }
       
       console.error("❌ Streaming Error:", error);
       
-      if (typeof onChunk === 'function') {
+      if (error instanceof CircuitOpenError) {
         onChunk({
-          chunk: `🔧 **Connection Issue**\n\nI'm having trouble connecting to the API server. Please check:\n\n• Is the API server running at ${this.baseUrl}?\n• Check your network connection\n• Try refreshing the page\n\nError: ${error.message}`,
+          chunk: `⏸️ **${this.provider.label} is failing repeatedly**\n\nRequests are paused for ${Math.ceil(error.retryInMs / 1000)}s so the provider can recover. Try again shortly.`,
           isFinal: true,
           error: error.message
         });
+        return;
       }
-    } finally {
-      this.abortController = null;
+
+      // The provider answered but refused the request: its message says why
+      if (error instanceof ProviderError && !error.retryable) {
+        onChunk({
+          chunk: `⚠️ **${this.provider.label} returned an error**\n\n${error.message}`,
+          isFinal: true,
+          error: error.message
+        });
+        return;
+      }
+
+      onChunk({
+        chunk: `🔧 **Connection Issue**\n\nI'm having trouble connecting to the API server. Please check:\n\n• Is the ${this.provider.label} endpoint reachable at ${this.provider.config.baseUrl || 'localhost'}?\n• Check your network connection\n• Try refreshing the page\n\nError: ${error.message}`,
+        isFinal: true,
+        error: error.message
+      });
     }
   }
 
+  // One-off completion outside the chat: no instant replies, no cache. It takes the model and
+  // fallbacks routed to `service` and is registered like any other request, so `owner` lets
+  // the UI find and cancel it.
+  async complete(
+    messages: AIMessage[],
+    options: Partial<GenerationParams> = {},
+    { service = 'general', owner }: { service?: ServiceType; owner?: string } = {}
+  ): Promise<AIResponse> {
+    if (!this.hasApiKey()) throw new Error(NO_API_KEY);
+
+    const routed = service === 'auto' ? 'general' : service;
+    return this.track('complete', owner, signal => this.streamWithFallbacks({
+      messages,
+      service: routed,
+      model: this.resolveModel(routed, undefined, messages.some(m => m.image)),
+      ...DEFAULT_PARAMS,
+      ...options,
+      signal
+    }, () => {})).result;
+  }
+
+  // Circuit breaker state for the active endpoint
+  circuitState(): CircuitBreaker['state'] {
+    return this.breaker().state;
+  }
+
+  private breaker(): CircuitBreaker {
+    const key = `${this.provider.id}:${this.provider.config.baseUrl}`;
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker();
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  // Call the model, retrying rate limits and server errors with backoff, then each fallback
+  // model in turn. Nothing is retried once text has streamed, since it can't be taken back.
+  private async streamWithFallbacks(request: ProviderRequest, onChunk: (chunk: AIStreamChunk) => void): Promise<AIResponse> {
+    const breaker = this.breaker();
+    const policy = resilience.retryPolicy();
+    const service = (request.service === 'auto' ? 'general' : request.service) as ServiceType;
+    const chain = resilience.chainFor(this.provider.config, service, request.model, request.messages.some(m => m.image));
+    let streamed = false;
+    let lastError: unknown;
+
+    for (const model of chain) {
+      const fallbackFrom = model === request.model ? undefined : request.model;
+      if (fallbackFrom) console.warn(`↪️ ${fallbackFrom} failed, falling back to ${model}`);
+
+      for (let attempt = 0; ; attempt++) {
+        const trial = await breaker.acquire(request.signal);
+        try {
+          const response = await this.provider.streamChat({ ...request, model }, chunk => {
+            if (chunk.chunk) streamed = true;
+            onChunk(fallbackFrom ? { ...chunk, model: chunk.model || model, fallbackFrom } : chunk);
+          });
+          breaker.recordSuccess(trial);
+          return response;
+        } catch (error) {
+          if (isProviderFailure(error)) breaker.recordFailure(trial);
+          else breaker.release(trial);
+          if (streamed || request.signal.aborted) throw error;
+
+          lastError = error;
+          if (!isRetryableStatus(error) || attempt >= policy.maxRetries) break;
+
+          const retryAfter = error instanceof ProviderError ? error.retryAfterMs : undefined;
+          const delay = Math.min(retryAfter ?? backoffDelay(attempt, policy.baseDelayMs), policy.maxDelayMs);
+          console.warn(`🔁 ${model} answered ${error instanceof ProviderError ? error.status : 'an error'}, retrying in ${delay}ms`);
+          await sleep(delay, request.signal);
+        }
+      }
+      if (!canFallBack(lastError)) break;
+    }
+    throw lastError;
+  }
+
   // Ultra-fast spell check
   async spellCheck(text: string): Promise<string> {
     const quickCorrections: Record<string, string> = {
@@ -394,11 +556,6 @@ export class AIService {
     quantumCache.clear();
     console.log('🧹 Quantum cache cleared');
   }
-
-  // Check if API is connected
-  isApiConnected(): boolean {
-    return this.isConnected;
-  }
 }
 
 export const aiService = new AIService();
@@ -0,0 +1,160 @@
+// src/services/classifier.ts
+import type { RouteDecision, RoutedService } from "@/types/chat";
+import { storage } from "@/services/storage";
+
+export interface ClassifierAttachment {
+  kind: 'image' | 'file';
+  content?: string;
+}
+
+export interface ClassifierInput {
+  text: string;
+  // Images and files shared since the last reply
+  attachments?: ClassifierAttachment[];
+}
+
+// Anything that can route a prompt; the keyword classifier is the default and the fallback
+export interface ServiceClassifier {
+  id: string;
+  classify(input: ClassifierInput): RouteDecision | Promise<RouteDecision>;
+}
+
+interface Rule {
+  service: RoutedService;
+  pattern: RegExp;
+  weight: number;
+  reason: string;
+  // Score every distinct match up to this many times instead of once
+  perMatch?: number;
+}
+
+const CODE_SYNTAX = /\b(function|const|let|var|class|def|import|export|return|interface|fn|public|void)\b[^\n]*[({=;:]/;
+
+const RULES: Rule[] = [
+  { service: 'code', pattern: /```/, weight: 3, reason: 'code block' },
+  { service: 'code', pattern: CODE_SYNTAX, weight: 2, reason: 'code syntax' },
+  { service: 'code', pattern: /\b(Traceback|TypeError|SyntaxError|ReferenceError|NullPointerException|segfault|stack ?trace)\b|\bat \S+:\d+:\d+/i, weight: 2, reason: 'error output' },
+  { service: 'code', pattern: /\b(code|bug|debug|compile[rd]?|refactor|typescript|javascript|python|java|rust|golang|c\+\+|sql|regex|api|endpoint|function|component|react|css|html|npm|git|docker|algorithm|unit tests?|script|snippet|database|query)\b/gi, weight: 2, reason: 'programming terms', perMatch: 3 },
+  { service: 'code', pattern: /\b[\w-]+\.(tsx?|jsx?|py|rs|go|java|cpp|cs|rb|php|sql|json|ya?ml|sh)\b/i, weight: 1, reason: 'source file name' },
+
+  { service: 'creative', pattern: /\b(write|compose|draft|come up with)\b.{0,30}\b(poem|story|song|lyrics|haiku|limerick|screenplay|tale|slogan|tagline|joke|rap|verse)s?\b/i, weight: 3, reason: 'writing request' },
+  { service: 'creative', pattern: /\b(generate|create|make|draw|paint|design|sketch)\b.{0,30}\b(image|picture|photo|art|artwork|illustration|logo|drawing|painting|wallpaper)s?\b/i, weight: 3, reason: 'image request' },
+  { service: 'creative', pattern: /\b(poem|story|lyrics|haiku|fiction|character|plot|rhyme|imagine|brainstorm|creative|slogan|tagline|fantasy)\b/gi, weight: 1.5, reason: 'creative terms', perMatch: 2 },
+
+  { service: 'knowledge', pattern: /^\s*(who|what|when|where|why|which|how (does|do|did|many|much|is|are|was|were))\b/i, weight: 1.5, reason: 'factual question' },
+  { service: 'knowledge', pattern: /\b(explain|define|definition|meaning of|history of|difference between|compare|summari[sz]e|research|facts?|statistics|according to|cite|sources?)\b/gi, weight: 2, reason: 'explanation', perMatch: 2 },
+  { service: 'knowledge', pattern: /\?\s*$/, weight: 0.5, reason: 'question' },
+
+  { service: 'general', pattern: /^\s*(hi|hello|hey|yo|thanks|thank you|good (morning|afternoon|evening|night)|how are you)\b/i, weight: 3, reason: 'small talk' },
+];
+
+// Chat wins when nothing else scores
+const GENERAL_BASE = 0.5;
+// Ties go to the more specific service
+const PRIORITY: RoutedService[] = ['code', 'creative', 'knowledge', 'general'];
+
+const looksLikeCode = (content: string) => /```/.test(content) || CODE_SYNTAX.test(content);
+
+// Deterministic keyword and heuristic scoring; runs locally and instantly
+export const keywordClassifier: ServiceClassifier = {
+  id: 'keywords',
+  classify({ text, attachments = [] }) {
+    const scores: Record<RoutedService, number> = { code: 0, creative: 0, knowledge: 0, general: GENERAL_BASE };
+    const reasons: Record<RoutedService, string[]> = { code: [], creative: [], knowledge: [], general: [] };
+    const add = (service: RoutedService, weight: number, reason: string) => {
+      scores[service] += weight;
+      if (!reasons[service].includes(reason)) reasons[service].push(reason);
+    };
+
+    for (const rule of RULES) {
+      if (rule.perMatch) {
+        const matches = new Set((text.match(rule.pattern) ?? []).map(m => m.toLowerCase()));
+        const count = Math.min(matches.size, rule.perMatch);
+        if (count) add(rule.service, rule.weight * count, rule.reason);
+      } else if (rule.pattern.test(text)) {
+        add(rule.service, rule.weight, rule.reason);
+      }
+    }
+
+    for (const attachment of attachments) {
+      if (attachment.kind === 'image') add('knowledge', 1, 'image attached');
+      else if (looksLikeCode(attachment.content ?? '')) add('code', 3, 'code file attached');
+      else add('knowledge', 1, 'document attached');
+    }
+
+    const service = PRIORITY.reduce((best, next) => scores[next] > scores[best] ? next : best);
+    const total = PRIORITY.reduce((sum, s) => sum + scores[s], 0);
+    return {
+      service,
+      confidence: Math.round((scores[service] / total) * 100) / 100,
+      reasons: reasons[service].length ? reasons[service] : ['no strong signal'],
+      classifier: 'keywords',
+    };
+  },
+};
+
+let activeClassifier: ServiceClassifier = keywordClassifier;
+
+// Swap in another classifier, e.g. one backed by an embedding model
+export function setServiceClassifier(classifier: ServiceClassifier | null): void {
+  activeClassifier = classifier ?? keywordClassifier;
+}
+
+// Pick the service for an Auto message, falling back to keywords if the active classifier fails
+export async function classifyService(input: ClassifierInput): Promise<RouteDecision> {
+  try {
+    return await activeClassifier.classify(input);
+  } catch (error) {
+    console.error(`Classifier ${activeClassifier.id} failed:`, error);
+    return keywordClassifier.classify(input);
+  }
+}
+
+export interface RoutingCorrection {
+  id: string;
+  createdAt: Date;
+  text: string;
+  predicted: RoutedService;
+  corrected: RoutedService;
+  confidence: number;
+  reasons: string[];
+  classifier: string;
+}
+
+const CORRECTIONS_META = 'routingCorrections';
+export const MAX_CORRECTIONS = 500;
+
+// Read-modify-writes of the log run one at a time so quick corrections don't drop each other
+let correctionWrites: Promise<void> = Promise.resolve();
+
+const queueCorrectionWrite = (write: () => Promise<void>): Promise<void> => {
+  const next = correctionWrites.then(write);
+  correctionWrites = next.catch(() => undefined);
+  return next;
+};
+
+export async function loadRoutingCorrections(): Promise<RoutingCorrection[]> {
+  return (await storage.getMeta<RoutingCorrection[]>(CORRECTIONS_META)) ?? [];
+}
+
+// Keep what the user said Auto should have picked, newest first, for tuning the rules
+export function logRoutingCorrection(text: string, decision: RouteDecision, corrected: RoutedService): Promise<void> {
+  const correction: RoutingCorrection = {
+    id: Date.now().toString(),
+    createdAt: new Date(),
+    text: text.slice(0, 1000),
+    predicted: decision.service,
+    corrected,
+    confidence: decision.confidence,
+    reasons: decision.reasons,
+    classifier: decision.classifier,
+  };
+  return queueCorrectionWrite(async () => {
+    const corrections = await loadRoutingCorrections();
+    await storage.setMeta(CORRECTIONS_META, [correction, ...corrections].slice(0, MAX_CORRECTIONS));
+  });
+}
+
+export function clearRoutingCorrections(): Promise<void> {
+  return queueCorrectionWrite(() => storage.deleteMeta(CORRECTIONS_META));
+}
@@ -0,0 +1,130 @@
+// src/services/deploy/githubPages.ts
+import type { DeployTarget } from "./types";
+import { deployLogger, responseError } from "./helpers";
+import { staticSiteFiles } from "./static";
+
+export const GITHUB_API_URL = 'https://api.github.com';
+
+interface GitRef {
+  object: { sha: string };
+}
+
+interface GitObject {
+  sha: string;
+}
+
+// Accepts owner/repo, https://github.com/owner/repo(.git) and git@github.com:owner/repo.git
+export function parseRemote(remote: string): { owner: string; repo: string } | null {
+  const match = remote.trim().match(/^(?:(?:https?:\/\/[^/]+\/)|(?:git@[^:]+:))?([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/);
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+export const pagesUrl = (owner: string, repo: string) =>
+  repo.toLowerCase() === `${owner.toLowerCase()}.github.io`
+    ? `https://${owner.toLowerCase()}.github.io/`
+    : `https://${owner.toLowerCase()}.github.io/${repo}/`;
+
+// Browsers cannot speak the git protocol, so the push goes through the Git Data API:
+// one tree with the whole site, one commit on top of the branch, then a forced ref update
+export const githubPagesTarget: DeployTarget = {
+  id: 'github-pages',
+  label: 'GitHub Pages',
+  description: 'Push the static site to a branch of a GitHub repository',
+  dashboardUrl: 'https://github.com',
+  fields: [
+    { key: 'remote', label: 'Repository', placeholder: 'owner/repo or https://github.com/owner/repo' },
+    { key: 'branch', label: 'Branch', placeholder: 'gh-pages', defaultValue: 'gh-pages' },
+    { key: 'token', label: 'GitHub Token', placeholder: 'Fine-grained token with Contents and Pages write access', secret: true },
+    { key: 'apiUrl', label: 'API URL', placeholder: GITHUB_API_URL, optional: true, advanced: true },
+  ],
+
+  summary() {
+    return [
+      { label: 'Build', value: 'Bundled in the browser' },
+      { label: 'History', value: 'One commit per deploy' },
+    ];
+  },
+
+  async deploy(project, settings, callbacks, signal) {
+    const log = deployLogger(callbacks);
+    const remote = parseRemote(settings.remote || '');
+    if (!remote) throw new Error(`"${settings.remote}" is not a GitHub repository`);
+    const branch = settings.branch?.trim() || 'gh-pages';
+    const apiUrl = (settings.apiUrl || GITHUB_API_URL).replace(/\/+$/, '');
+    const repoPath = `/repos/${remote.owner}/${remote.repo}`;
+    const refPath = `heads/${branch.split('/').map(encodeURIComponent).join('/')}`;
+
+    const send = (path: string, init: RequestInit = {}) => fetch(`${apiUrl}${repoPath}${path}`, {
+      ...init,
+      signal,
+      headers: {
+        'Accept': 'application/vnd.github+json',
+        'Authorization': `Bearer ${settings.token}`,
+        'Content-Type': 'application/json',
+        ...init.headers,
+      },
+    });
+    const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+      const response = await send(path, init);
+      if (!response.ok) throw await responseError(response, 'GitHub');
+      return response.json() as Promise<T>;
+    };
+
+    callbacks.onStatus?.('Building');
+    const { files, bundled } = await staticSiteFiles(project);
+    log.info(bundled ? 'Bundled the project into index.html' : `Using ${files.length} static files as they are`);
+
+    callbacks.onStatus?.('Committing');
+    const current = await send(`/git/ref/${refPath}`);
+    if (!current.ok && current.status !== 404) throw await responseError(current, 'GitHub');
+    const parent = current.ok ? ((await current.json()) as GitRef).object.sha : null;
+    log.info(parent ? `Updating ${branch} at ${parent.slice(0, 7)}` : `Creating branch ${branch}`);
+
+    // .nojekyll keeps Pages from hiding files and folders that start with an underscore
+    const tree = await request<GitObject>('/git/trees', {
+      method: 'POST',
+      body: JSON.stringify({
+        tree: [...files, { name: '.nojekyll', content: '' }].map(file => ({
+          path: file.name,
+          mode: '100644',
+          type: 'blob',
+          content: file.content,
+        })),
+      }),
+    });
+    const commit = await request<GitObject>('/git/commits', {
+      method: 'POST',
+      body: JSON.stringify({
+        message: `Deploy ${project.name}`,
+        tree: tree.sha,
+        parents: parent ? [parent] : [],
+      }),
+    });
+    log.info(`Created commit ${commit.sha.slice(0, 7)} with ${files.length} files`);
+
+    callbacks.onStatus?.('Pushing');
+    if (parent) {
+      await request(`/git/refs/${refPath}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ sha: commit.sha, force: true }),
+      });
+    } else {
+      await request('/git/refs', {
+        method: 'POST',
+        body: JSON.stringify({ ref: `refs/heads/${branch}`, sha: commit.sha }),
+      });
+    }
+    log.info(`Pushed ${commit.sha.slice(0, 7)} to ${remote.owner}/${remote.repo}@${branch}`);
+
+    // 409 means Pages is already switched on for this repository
+    const pages = await send('/pages', {
+      method: 'POST',
+      body: JSON.stringify({ source: { branch, path: '/' } }),
+    });
+    if (pages.ok) log.info(`Enabled GitHub Pages from ${branch}`);
+    else if (pages.status !== 409) log.error(`Could not enable GitHub Pages (${pages.status}); turn it on in the repository settings`);
+
+    log.info('GitHub Pages will publish the commit in a minute or two');
+    return { url: pagesUrl(remote.owner, remote.repo), revision: commit.sha };
+  },
+};
@@ -0,0 +1,22 @@
+// src/services/deploy/helpers.ts
+import type { DeployCallbacks } from "./types";
+
+export function deployLogger(callbacks: DeployCallbacks) {
+  return {
+    info: (text: string) => callbacks.onLog?.({ level: 'info', text, time: Date.now() }),
+    error: (text: string) => callbacks.onLog?.({ level: 'error', text, time: Date.now() }),
+  };
+}
+
+// Pull the most useful message out of a JSON error body
+export async function responseError(response: Response, service: string): Promise<Error> {
+  const text = await response.text().catch(() => '');
+  let message = '';
+  try {
+    const body = JSON.parse(text);
+    message = body?.error?.message || body?.message || (typeof body?.error === 'string' ? body.error : '');
+  } catch {
+    message = text.slice(0, 200);
+  }
+  return new Error(`${service} API ${response.status}: ${message || response.statusText || 'Request failed'}`);
+}
@@ -0,0 +1,13 @@
+// src/services/deploy/index.ts
+import type { DeployTarget, DeployTargetId } from "./types";
+import { vercelTarget } from "./vercel";
+import { netlifyTarget } from "./netlify";
+import { githubPagesTarget } from "./githubPages";
+import { zipTarget } from "./zip";
+
+export type { DeployCallbacks, DeployField, DeployLogLine, DeployResult, DeploySettings, DeployTarget, DeployTargetId } from "./types";
+
+export const DEPLOY_TARGETS: DeployTarget[] = [vercelTarget, netlifyTarget, githubPagesTarget, zipTarget];
+
+export const getDeployTarget = (id: DeployTargetId): DeployTarget =>
+  DEPLOY_TARGETS.find(target => target.id === id) ?? vercelTarget;
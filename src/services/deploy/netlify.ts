@@ -0,0 +1,123 @@
+// src/services/deploy/netlify.ts
+import { projectSlug } from "@/lib/projectArchive";
+import { sleep } from "@/services/providers/stream";
+import type { DeployTarget } from "./types";
+import { deployLogger, responseError } from "./helpers";
+import { staticSiteFiles } from "./static";
+
+export const NETLIFY_API_URL = 'https://api.netlify.com/api/v1';
+
+interface NetlifySite {
+  id: string;
+  name: string;
+  ssl_url?: string;
+  url?: string;
+}
+
+interface NetlifyDeploy {
+  id: string;
+  state: string;
+  required?: string[];
+  ssl_url?: string;
+  url?: string;
+  deploy_ssl_url?: string;
+  error_message?: string;
+}
+
+const POLL_INTERVAL_MS = 1500;
+const DEPLOY_TIMEOUT_MS = 5 * 60 * 1000;
+
+const sha1 = async (content: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Netlify's file-digest deploys: announce every file by SHA-1, then upload only the ones it lacks
+export const netlifyTarget: DeployTarget = {
+  id: 'netlify',
+  label: 'Netlify',
+  description: 'Publish the static site with a file-digest deploy',
+  dashboardUrl: 'https://app.netlify.com',
+  fields: [
+    { key: 'token', label: 'Personal Access Token', placeholder: 'From app.netlify.com/user/applications', secret: true },
+    { key: 'siteId', label: 'Site ID', placeholder: 'Leave empty to create a new site', optional: true },
+    { key: 'apiUrl', label: 'API URL', placeholder: NETLIFY_API_URL, optional: true, advanced: true },
+  ],
+
+  summary() {
+    return [
+      { label: 'Build', value: 'Bundled in the browser' },
+      { label: 'Upload', value: 'Changed files only' },
+    ];
+  },
+
+  async deploy(project, settings, callbacks, signal) {
+    const log = deployLogger(callbacks);
+    const apiUrl = (settings.apiUrl || NETLIFY_API_URL).replace(/\/+$/, '');
+    const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+      const response = await fetch(`${apiUrl}${path}`, {
+        ...init,
+        signal,
+        headers: { 'Authorization': `Bearer ${settings.token}`, 'Content-Type': 'application/json', ...init.headers },
+      });
+      if (!response.ok) throw await responseError(response, 'Netlify');
+      return response.json() as Promise<T>;
+    };
+
+    callbacks.onStatus?.('Building');
+    const { files, bundled } = await staticSiteFiles(project);
+    log.info(bundled ? 'Bundled the project into index.html' : `Using ${files.length} static files as they are`);
+
+    let siteId = settings.siteId?.trim();
+    if (!siteId) {
+      const site = await request<NetlifySite>('/sites', {
+        method: 'POST',
+        body: JSON.stringify({ name: `${projectSlug(project.name)}-${Date.now().toString(36)}` }),
+      });
+      siteId = site.id;
+      log.info(`Created site ${site.name} (${site.id})`);
+    }
+
+    const digests: Record<string, string> = {};
+    const byDigest = new Map<string, { path: string; content: string }>();
+    for (const file of files) {
+      const digest = await sha1(file.content);
+      digests[`/${file.name}`] = digest;
+      byDigest.set(digest, { path: file.name, content: file.content });
+    }
+
+    callbacks.onStatus?.('Uploading');
+    let deploy = await request<NetlifyDeploy>(`/sites/${encodeURIComponent(siteId)}/deploys`, {
+      method: 'POST',
+      body: JSON.stringify({ files: digests }),
+    });
+    log.info(`Deploy ${deploy.id} created, ${deploy.required?.length ?? 0} of ${files.length} files to upload`);
+
+    for (const digest of deploy.required ?? []) {
+      const file = byDigest.get(digest);
+      if (!file) continue;
+      const response = await fetch(`${apiUrl}/deploys/${deploy.id}/files/${file.path.split('/').map(encodeURIComponent).join('/')}`, {
+        method: 'PUT',
+        signal,
+        headers: { 'Authorization': `Bearer ${settings.token}`, 'Content-Type': 'application/octet-stream' },
+        body: file.content,
+      });
+      if (!response.ok) throw await responseError(response, 'Netlify');
+      log.info(`Uploaded ${file.path}`);
+    }
+
+    const startedAt = Date.now();
+    while (deploy.state !== 'ready') {
+      if (deploy.state === 'error') throw new Error(deploy.error_message || 'Netlify reported a failed deploy');
+      if (Date.now() - startedAt > DEPLOY_TIMEOUT_MS) throw new Error('Timed out waiting for Netlify to publish the deploy');
+      callbacks.onStatus?.(capitalize(deploy.state));
+      await sleep(POLL_INTERVAL_MS, signal);
+      deploy = await request<NetlifyDeploy>(`/deploys/${deploy.id}`);
+    }
+
+    log.info('Deploy is live');
+    return { url: deploy.ssl_url || deploy.deploy_ssl_url || deploy.url, revision: deploy.id };
+  },
+};
@@ -0,0 +1,24 @@
+// src/services/deploy/static.ts
+import type { Project, ProjectFile } from "@/types/project";
+import { buildPreview } from "@/lib/preview";
+
+// Files that only mean something to a bundler; static hosts serve the bundled page instead
+const SOURCE_FILE = /\.(m?js|cjs|jsx|ts|tsx|css|html?)$/i;
+
+export const needsBundling = (project: Project) =>
+  project.files.some(f => /\.(jsx|tsx|ts)$/i.test(f.name)) || !project.files.some(f => /\.html?$/i.test(f.name));
+
+// What a static host should serve: plain HTML projects as they are, anything with JSX or
+// TypeScript bundled into a single index.html by the same builder the live preview uses
+export async function staticSiteFiles(project: Project): Promise<{ files: ProjectFile[]; bundled: boolean }> {
+  if (!needsBundling(project)) return { files: project.files, bundled: false };
+
+  const { html, errors } = await buildPreview(project.files);
+  if (errors.length) throw new Error(`Build failed:\n${errors.join('\n')}`);
+
+  const assets = project.files.filter(f => !SOURCE_FILE.test(f.name) && f.name !== 'package.json');
+  return {
+    files: [{ name: 'index.html', content: html, language: 'html' }, ...assets],
+    bundled: true,
+  };
+}
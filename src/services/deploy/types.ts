@@ -0,0 +1,52 @@
+// src/services/deploy/types.ts
+import type { DeployTargetId } from "@/types/deploy";
+import type { Project } from "@/types/project";
+
+export type { DeployTargetId };
+
+export interface DeployField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  optional?: boolean;
+  // Secrets are kept in memory for the session and never written to storage
+  secret?: boolean;
+  // Shown under "Advanced" in the settings form
+  advanced?: boolean;
+  defaultValue?: string;
+}
+
+export type DeploySettings = Record<string, string>;
+
+export interface DeployLogLine {
+  level: 'info' | 'error';
+  text: string;
+  time: number;
+}
+
+export interface DeployCallbacks {
+  onStatus?: (status: string) => void;
+  onLog?: (line: DeployLogLine) => void;
+}
+
+export interface DeployResult {
+  url?: string;
+  // The host's id for this deployment: a deployment id or commit SHA
+  revision?: string;
+  // What happened, for targets without a URL such as a downloaded zip
+  detail?: string;
+}
+
+// A place a Code Studio project can be published to. Each target declares the settings it needs
+// so the deploy dialog can render its form, and reports progress through the shared callbacks.
+export interface DeployTarget {
+  readonly id: DeployTargetId;
+  readonly label: string;
+  readonly description: string;
+  readonly fields: DeployField[];
+  readonly dashboardUrl?: string;
+
+  // Label/value pairs describing how the project will be built and published
+  summary(project: Project): { label: string; value: string }[];
+  deploy(project: Project, settings: DeploySettings, callbacks: DeployCallbacks, signal: AbortSignal): Promise<DeployResult>;
+}
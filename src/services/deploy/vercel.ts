@@ -0,0 +1,220 @@
+// src/services/deploy/vercel.ts
+import type { Project } from "@/types/project";
+import { archiveFiles, projectSlug } from "@/lib/projectArchive";
+import { parseJson, readLines, sleep } from "@/services/providers/stream";
+import type { DeployTarget } from "./types";
+import { deployLogger, responseError } from "./helpers";
+
+export const VERCEL_API_URL = 'https://api.vercel.com';
+
+export type VercelReadyState = 'QUEUED' | 'INITIALIZING' | 'BUILDING' | 'READY' | 'ERROR' | 'CANCELED';
+
+export interface VercelConfig {
+  token: string;
+  teamId?: string;
+  // Point at a local stand-in of the API for testing
+  apiUrl?: string;
+}
+
+export interface VercelDeployment {
+  id: string;
+  url: string;
+  readyState: VercelReadyState;
+  inspectorUrl?: string;
+  alias?: string[];
+  errorMessage?: string;
+}
+
+export interface VercelLogLine {
+  type: string;
+  text: string;
+  created: number;
+}
+
+export interface VercelDeployCallbacks {
+  onStatus?: (state: VercelReadyState, deployment: VercelDeployment) => void;
+  onLog?: (line: VercelLogLine) => void;
+}
+
+interface VercelEvent {
+  type?: string;
+  created?: number;
+  text?: string;
+  payload?: { text?: string };
+}
+
+interface ProjectSettings {
+  framework: string | null;
+  buildCommand?: string | null;
+  outputDirectory?: string | null;
+  installCommand?: string | null;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const DEPLOY_TIMEOUT_MS = 15 * 60 * 1000;
+const FINAL_STATES: VercelReadyState[] = ['READY', 'ERROR', 'CANCELED'];
+
+const stateLabel: Record<VercelReadyState, string> = {
+  QUEUED: 'Queued',
+  INITIALIZING: 'Initializing',
+  BUILDING: 'Building',
+  READY: 'Ready',
+  ERROR: 'Failed',
+  CANCELED: 'Canceled',
+};
+
+// Vercel detects most frameworks itself; static projects need an explicit "no build"
+export function projectSettingsFor(project: Project): ProjectSettings {
+  const manifest = archiveFiles(project).find(f => f.name === 'package.json');
+  const pkg = manifest ? parseJson<{ dependencies?: Record<string, string>; devDependencies?: Record<string, string> }>(manifest.content) : null;
+  const deps = { ...pkg?.devDependencies, ...pkg?.dependencies };
+
+  if (deps.next) return { framework: 'nextjs' };
+  if (deps.vite) return { framework: 'vite' };
+  if (pkg) return { framework: null };
+  return { framework: null, buildCommand: null, installCommand: null, outputDirectory: null };
+}
+
+// Client for the Vercel REST API: create a deployment from inline files, then follow it to completion
+export class VercelClient {
+  private readonly apiUrl: string;
+
+  constructor(private readonly config: VercelConfig) {
+    this.apiUrl = (config.apiUrl || VERCEL_API_URL).replace(/\/+$/, '');
+  }
+
+  private url(path: string, params: Record<string, string> = {}): string {
+    const query = new URLSearchParams(params);
+    if (this.config.teamId) query.set('teamId', this.config.teamId);
+    const search = query.toString();
+    return `${this.apiUrl}${path}${search ? `?${search}` : ''}`;
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}, params?: Record<string, string>): Promise<T> {
+    const response = await fetch(this.url(path, params), {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${this.config.token}`,
+        'Content-Type': 'application/json',
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) throw await responseError(response, 'Vercel');
+    return response.json() as Promise<T>;
+  }
+
+  createDeployment(project: Project, signal?: AbortSignal): Promise<VercelDeployment> {
+    const body = {
+      name: projectSlug(project.name),
+      target: 'production',
+      files: archiveFiles(project).map(file => ({ file: file.name, data: file.content, encoding: 'utf-8' })),
+      projectSettings: projectSettingsFor(project),
+    };
+
+    return this.request<VercelDeployment>('/v13/deployments', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      signal,
+    }, { skipAutoDetectionConfirmation: '1' });
+  }
+
+  getDeployment(id: string, signal?: AbortSignal): Promise<VercelDeployment> {
+    return this.request<VercelDeployment>(`/v13/deployments/${encodeURIComponent(id)}`, { signal });
+  }
+
+  // Build output as newline-delimited JSON events; the stream ends when the build does
+  async streamEvents(id: string, onLog: (line: VercelLogLine) => void, signal?: AbortSignal): Promise<void> {
+    const response = await fetch(this.url(`/v3/deployments/${encodeURIComponent(id)}/events`, { follow: '1', builds: '1' }), {
+      headers: { 'Authorization': `Bearer ${this.config.token}` },
+      signal,
+    });
+    if (!response.ok) throw new Error(`Vercel API ${response.status}: could not read build logs`);
+
+    const emit = (event: VercelEvent) => {
+      const text = event.payload?.text ?? event.text;
+      if (text) onLog({ type: event.type || 'stdout', text, created: event.created || Date.now() });
+    };
+
+    await readLines(response, line => {
+      if (!line.trim()) return;
+      // Without streaming support the endpoint answers with one JSON array
+      const parsed = parseJson<VercelEvent | VercelEvent[]>(line);
+      if (Array.isArray(parsed)) parsed.forEach(emit);
+      else if (parsed) emit(parsed);
+    });
+  }
+
+  // Upload the project and wait for a final state, streaming build logs on the way
+  async deploy(project: Project, callbacks: VercelDeployCallbacks = {}, signal?: AbortSignal): Promise<VercelDeployment> {
+    let deployment = await this.createDeployment(project, signal);
+    callbacks.onStatus?.(deployment.readyState, deployment);
+
+    const logs = new AbortController();
+    const stopLogs = () => logs.abort();
+    signal?.addEventListener('abort', stopLogs, { once: true });
+    const logsDone = callbacks.onLog
+      ? this.streamEvents(deployment.id, callbacks.onLog, logs.signal).catch(error => {
+        if (!logs.signal.aborted) console.warn('Vercel build logs unavailable:', error);
+      })
+      : Promise.resolve();
+
+    try {
+      const startedAt = Date.now();
+      while (!FINAL_STATES.includes(deployment.readyState)) {
+        if (Date.now() - startedAt > DEPLOY_TIMEOUT_MS) throw new Error('Timed out waiting for the deployment to finish');
+        await sleep(POLL_INTERVAL_MS, signal);
+
+        const previous = deployment.readyState;
+        deployment = await this.getDeployment(deployment.id, signal);
+        if (deployment.readyState !== previous) callbacks.onStatus?.(deployment.readyState, deployment);
+      }
+    } finally {
+      // Give the last build lines a moment to arrive before closing the log stream
+      if (!logs.signal.aborted) await Promise.race([logsDone, sleep(1500)]);
+      logs.abort();
+      signal?.removeEventListener('abort', stopLogs);
+    }
+
+    if (deployment.readyState !== 'READY') {
+      throw new Error(deployment.errorMessage || `Deployment ${deployment.readyState.toLowerCase()}`);
+    }
+    return deployment;
+  }
+}
+
+// Deployment hosts come back without a scheme
+export const deploymentUrl = (deployment: VercelDeployment) =>
+  /^https?:\/\//.test(deployment.url) ? deployment.url : `https://${deployment.url}`;
+
+export const vercelTarget: DeployTarget = {
+  id: 'vercel',
+  label: 'Vercel',
+  description: 'Upload the sources and let Vercel build and host them',
+  dashboardUrl: 'https://vercel.com/dashboard',
+  fields: [
+    { key: 'token', label: 'Vercel Token', placeholder: 'Create one at vercel.com/account/tokens', secret: true },
+    { key: 'teamId', label: 'Team ID', placeholder: 'team_...', optional: true, advanced: true },
+    { key: 'apiUrl', label: 'API URL', placeholder: VERCEL_API_URL, optional: true, advanced: true, defaultValue: import.meta.env.VITE_VERCEL_API_URL },
+  ],
+
+  summary(project) {
+    const settings = projectSettingsFor(project);
+    return [
+      { label: 'Framework', value: settings.framework === 'nextjs' ? 'Next.js' : settings.framework === 'vite' ? 'Vite' : 'Static' },
+      { label: 'Build Command', value: settings.buildCommand === null ? 'None' : 'npm run build' },
+    ];
+  },
+
+  async deploy(project, settings, callbacks, signal) {
+    const log = deployLogger(callbacks);
+    const client = new VercelClient({ token: settings.token, teamId: settings.teamId || undefined, apiUrl: settings.apiUrl || undefined });
+
+    const deployment = await client.deploy(project, {
+      onStatus: state => callbacks.onStatus?.(stateLabel[state]),
+      onLog: line => (line.type === 'stderr' ? log.error(line.text) : log.info(line.text)),
+    }, signal);
+
+    return { url: deploymentUrl(deployment), revision: deployment.id };
+  },
+};
@@ -0,0 +1,40 @@
+// src/services/deploy/zip.ts
+import JSZip from "jszip";
+import { downloadBlob } from "@/lib/download";
+import { projectSlug } from "@/lib/projectArchive";
+import type { DeployTarget } from "./types";
+import { deployLogger } from "./helpers";
+import { staticSiteFiles } from "./static";
+
+// No host at all: build the static site and hand it over as a zip for any web server
+export const zipTarget: DeployTarget = {
+  id: 'zip',
+  label: 'Static zip',
+  description: 'Download the built site as a zip to host anywhere',
+  fields: [],
+
+  summary() {
+    return [
+      { label: 'Build', value: 'Bundled in the browser' },
+      { label: 'Output', value: 'index.html + assets' },
+    ];
+  },
+
+  async deploy(project, _settings, callbacks) {
+    const log = deployLogger(callbacks);
+
+    callbacks.onStatus?.('Building');
+    const { files, bundled } = await staticSiteFiles(project);
+    log.info(bundled ? 'Bundled the project into index.html' : `Using ${files.length} static files as they are`);
+
+    callbacks.onStatus?.('Packaging');
+    const zip = new JSZip();
+    for (const file of files) zip.file(file.name, file.content);
+    const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+
+    const filename = `${projectSlug(project.name)}-site.zip`;
+    downloadBlob(blob, filename);
+    log.info(`Saved ${filename} (${Math.ceil(blob.size / 1024)} KB)`);
+    return { detail: `Downloaded ${filename}` };
+  },
+};
@@ -0,0 +1,66 @@
+// src/services/generation.ts
+import type { GenerationParams, RoutedService } from "@/types/chat";
+import { PersistedStore } from "@/services/storage/persisted";
+
+export const DEFAULT_PARAMS: GenerationParams = {
+  temperature: 0.7,
+  topP: 1,
+  maxTokens: 2000,
+  stop: [],
+  presencePenalty: 0,
+  frequencyPenalty: 0,
+};
+
+// Slider bounds, matching the OpenAI API's accepted ranges
+export const PARAM_LIMITS = {
+  temperature: { min: 0, max: 2, step: 0.05 },
+  topP: { min: 0, max: 1, step: 0.01 },
+  maxTokens: { min: 64, max: 8192, step: 64 },
+  presencePenalty: { min: -2, max: 2, step: 0.1 },
+  frequencyPenalty: { min: -2, max: 2, step: 0.1 },
+} satisfies Partial<Record<keyof GenerationParams, { min: number; max: number; step: number }>>;
+
+export const MAX_STOP_SEQUENCES = 4;
+
+export type ParamPresets = Partial<Record<RoutedService, Partial<GenerationParams>>>;
+
+// Precise for code and facts, looser for writing
+const BUILT_IN_PRESETS: ParamPresets = {
+  code: { temperature: 0.2, topP: 0.95 },
+  creative: { temperature: 1, topP: 0.95, presencePenalty: 0.3, frequencyPenalty: 0.3 },
+  knowledge: { temperature: 0.3 },
+};
+
+// Leave out unset keys so they don't shadow the layer below
+const defined = (params: Partial<GenerationParams> = {}): Partial<GenerationParams> =>
+  Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined));
+
+const PRESETS_META = 'generationPresets';
+
+// Sampling defaults per service. User presets replace the built-in ones.
+class GenerationPresets extends PersistedStore<ParamPresets> {
+  constructor() {
+    super(PRESETS_META, 'generation presets', {});
+  }
+
+  isCustom(service: RoutedService): boolean {
+    return !!this.state[service];
+  }
+
+  // Defaults, then the service's preset, then per-conversation overrides
+  paramsFor(service: RoutedService, overrides?: Partial<GenerationParams>): GenerationParams {
+    const preset = this.state[service] ?? BUILT_IN_PRESETS[service];
+    return { ...DEFAULT_PARAMS, ...defined(preset), ...defined(overrides) };
+  }
+
+  setPreset(service: RoutedService, params: GenerationParams): Promise<void> {
+    return this.save({ ...this.state, [service]: params });
+  }
+
+  resetPreset(service: RoutedService): Promise<void> {
+    const { [service]: _removed, ...rest } = this.state;
+    return this.save(rest);
+  }
+}
+
+export const generationPresets = new GenerationPresets();
@@ -0,0 +1,183 @@
+// src/services/health.ts
+import { aiService } from "@/services/aiService";
+import { keyVault } from "@/services/keyVault";
+import { PROVIDER_KEYS, createProvider, keyRequired, resolveProviderConfig, type ProviderConfig, type ProviderId } from "@/services/providers";
+
+export type HealthStatus = 'checking' | 'online' | 'degraded' | 'offline' | 'unconfigured';
+
+export interface ProviderHealth {
+  provider: ProviderId;
+  label: string;
+  baseUrl: string;
+  // The provider chat requests go to
+  active: boolean;
+  status: HealthStatus;
+  latencyMs?: number;
+  checkedAt?: number;
+  error?: string;
+}
+
+export interface HealthSnapshot {
+  // What the browser reports about the network
+  online: boolean;
+  providers: ProviderHealth[];
+}
+
+export const HEALTH_INTERVAL_MS = 60_000;
+const PING_TIMEOUT_MS = 5000;
+// Slower answers than this count as degraded
+export const SLOW_LATENCY_MS = 2000;
+
+const browserOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+// Pings every configured provider while anything is listening: every minute, when the tab
+// becomes visible, when the browser comes back online and when keys change
+class HealthMonitor {
+  private snapshot: HealthSnapshot = { online: browserOnline(), providers: [] };
+  private listeners = new Set<() => void>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private stopVault: (() => void) | null = null;
+  private checking: Promise<void> | null = null;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.start();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  // The active provider's health, if it has been checked
+  active(): ProviderHealth | undefined {
+    return this.snapshot.providers.find(p => p.active);
+  }
+
+  // Whether a prompt can be sent now; unknown counts as reachable
+  isReachable(): boolean {
+    return this.snapshot.online && this.active()?.status !== 'offline';
+  }
+
+  check(): Promise<void> {
+    this.checking ??= this.probeAll().finally(() => {
+      this.checking = null;
+    });
+    return this.checking;
+  }
+
+  private start(): void {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+      document.addEventListener('visibilitychange', this.handleVisibility);
+    }
+    this.stopVault = keyVault.subscribe(() => this.check());
+    this.timer = setInterval(() => {
+      if (typeof document === 'undefined' || document.visibilityState === 'visible') this.check();
+    }, HEALTH_INTERVAL_MS);
+    this.check();
+  }
+
+  private stop(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+      document.removeEventListener('visibilitychange', this.handleVisibility);
+    }
+    this.stopVault?.();
+    this.stopVault = null;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private handleOnline = () => {
+    this.update({ ...this.snapshot, online: true });
+    this.check();
+  };
+
+  private handleOffline = () => {
+    this.update({
+      online: false,
+      providers: this.snapshot.providers.map(p => ({ ...p, status: 'offline', error: 'The browser is offline' })),
+    });
+  };
+
+  private handleVisibility = () => {
+    if (document.visibilityState === 'visible') this.check();
+  };
+
+  // The active provider plus every other provider the user has saved a key for
+  private targets(): ProviderConfig[] {
+    const active = aiService.getProviderConfig();
+    const others = (Object.keys(PROVIDER_KEYS) as ProviderId[])
+      .filter(id => id !== active.id && keyVault.getKey(id))
+      .map(id => resolveProviderConfig({ id, apiKey: keyVault.getKey(id) }));
+    return [active, ...others];
+  }
+
+  private async probeAll(): Promise<void> {
+    const targets = this.targets();
+    const online = browserOnline();
+    const previous = new Map(this.snapshot.providers.map(p => [`${p.provider}:${p.baseUrl}`, p]));
+
+    // Keep the last result on screen while the new checks run
+    this.update({
+      online,
+      providers: targets.map((config, i) => ({
+        status: 'checking' as const,
+        ...previous.get(`${config.id}:${config.baseUrl}`),
+        ...this.describe(config, i === 0),
+      })),
+    });
+    if (!online) return this.handleOffline();
+
+    const providers = await Promise.all(targets.map((config, i) => this.probe(config, i === 0)));
+    this.update({ online: browserOnline(), providers });
+  }
+
+  private describe(config: ProviderConfig, active: boolean) {
+    const provider = createProvider(config);
+    return { provider: config.id, label: provider.label, baseUrl: config.baseUrl, active };
+  }
+
+  private async probe(config: ProviderConfig, active: boolean): Promise<ProviderHealth> {
+    const base = this.describe(config, active);
+    if (keyRequired(config) && !config.apiKey) {
+      return { ...base, status: 'unconfigured', checkedAt: Date.now(), error: 'No API key' };
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), PING_TIMEOUT_MS);
+    const started = performance.now();
+    try {
+      const ok = await createProvider(config).ping(controller.signal);
+      const latencyMs = Math.round(performance.now() - started);
+      const paused = active && aiService.circuitState() !== 'closed';
+      return {
+        ...base,
+        status: !ok || paused || latencyMs > SLOW_LATENCY_MS ? 'degraded' : 'online',
+        latencyMs,
+        checkedAt: Date.now(),
+        error: !ok ? 'Answered with an error' : paused ? 'Paused after repeated failures' : undefined,
+      };
+    } catch {
+      return {
+        ...base,
+        status: 'offline',
+        checkedAt: Date.now(),
+        error: controller.signal.aborted ? `No answer within ${PING_TIMEOUT_MS / 1000}s` : 'Unreachable',
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private update(snapshot: HealthSnapshot): void {
+    this.snapshot = snapshot;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const healthMonitor = new HealthMonitor();
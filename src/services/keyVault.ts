@@ -0,0 +1,186 @@
+// src/services/keyVault.ts
+import { storage } from "@/services/storage";
+
+export type VaultState = 'loading' | 'empty' | 'locked' | 'unlocked';
+
+export interface VaultSnapshot {
+  state: VaultState;
+  // Ids with a stored key; only known while unlocked
+  configured: string[];
+}
+
+// What lands in IndexedDB: the salt and IV in the clear, the keys only as AES-GCM ciphertext
+export interface VaultRecord {
+  version: 1;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+const VAULT_META = 'keyVault';
+const PBKDF2_ITERATIONS = 310000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// API keys encrypted at rest with a key derived from the user's passphrase.
+// Decrypted keys only ever live in memory, until the vault is locked or the page closes.
+class KeyVault {
+  private snapshot: VaultSnapshot = { state: 'loading', configured: [] };
+  private keys: Record<string, string> = {};
+  private cryptoKey: CryptoKey | null = null;
+  private salt: Uint8Array<ArrayBuffer> | null = null;
+  private loaded: Promise<void> | null = null;
+  // Encrypted writes run one at a time, each starting from the keys the previous one left
+  private writes: Promise<void> = Promise.resolve();
+  private listeners = new Set<() => void>();
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    this.load();
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = (): VaultSnapshot => this.snapshot;
+
+  getKey(id: string): string | undefined {
+    return this.keys[id];
+  }
+
+  load(): Promise<void> {
+    this.loaded ??= storage.getMeta<VaultRecord>(VAULT_META)
+      .then(record => {
+        if (this.snapshot.state === 'loading') this.emit(record ? 'locked' : 'empty');
+      })
+      .catch(error => {
+        console.error('Failed to load key vault:', error);
+        this.emit('empty');
+      });
+    return this.loaded;
+  }
+
+  async create(passphrase: string): Promise<void> {
+    this.keys = {};
+    await this.rekey(passphrase);
+    this.emit('unlocked');
+  }
+
+  // Resolves false when the passphrase is wrong: AES-GCM refuses to decrypt with the wrong key
+  async unlock(passphrase: string): Promise<boolean> {
+    await this.load();
+    const record = await storage.getMeta<VaultRecord>(VAULT_META);
+    if (!record) return false;
+
+    const salt = fromBase64(record.salt);
+    const key = await deriveKey(passphrase, salt);
+    try {
+      const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(record.iv) }, key, fromBase64(record.data));
+      this.keys = JSON.parse(new TextDecoder().decode(plain));
+    } catch {
+      return false;
+    }
+    this.salt = salt;
+    this.cryptoKey = key;
+    this.emit('unlocked');
+    return true;
+  }
+
+  lock(): void {
+    if (this.snapshot.state !== 'unlocked') return;
+    this.keys = {};
+    this.cryptoKey = null;
+    this.emit('locked');
+  }
+
+  // Memory only changes once the encrypted write has landed, so a failed save shows no key
+  setKey(id: string, value: string): Promise<void> {
+    return this.enqueue(async () => {
+      const keys = { ...this.keys, [id]: value.trim() };
+      await this.persist(keys);
+      this.keys = keys;
+      this.emit('unlocked');
+    });
+  }
+
+  removeKey(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const { [id]: _removed, ...keys } = this.keys;
+      await this.persist(keys);
+      this.keys = keys;
+      this.emit('unlocked');
+    });
+  }
+
+  changePassphrase(passphrase: string): Promise<void> {
+    return this.enqueue(async () => {
+      if (!this.cryptoKey) throw new Error('Unlock the vault first');
+      await this.rekey(passphrase);
+      this.emit('unlocked');
+    });
+  }
+
+  // Forget everything, e.g. after a lost passphrase. Returns the old record so it can be put back.
+  async reset(): Promise<VaultRecord | undefined> {
+    const record = await storage.getMeta<VaultRecord>(VAULT_META);
+    await storage.deleteMeta(VAULT_META);
+    this.keys = {};
+    this.cryptoKey = null;
+    this.salt = null;
+    this.emit('empty');
+    return record;
+  }
+
+  async restore(record: VaultRecord): Promise<void> {
+    await storage.setMeta(VAULT_META, record);
+    this.emit('locked');
+  }
+
+  // Fresh salt and key for a new passphrase, then re-encrypt what is in memory
+  private async rekey(passphrase: string): Promise<void> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const cryptoKey = await deriveKey(passphrase, salt);
+    await this.persist(this.keys, cryptoKey, salt);
+    this.salt = salt;
+    this.cryptoKey = cryptoKey;
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const run = this.writes.then(write);
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  private async persist(keys = this.keys, cryptoKey = this.cryptoKey, salt = this.salt): Promise<void> {
+    if (!cryptoKey || !salt) throw new Error('Unlock the vault first');
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      cryptoKey,
+      new TextEncoder().encode(JSON.stringify(keys))
+    );
+    const record: VaultRecord = { version: 1, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+    await storage.setMeta(VAULT_META, record);
+  }
+
+  private emit(state: VaultState): void {
+    this.snapshot = { state, configured: state === 'unlocked' ? Object.keys(this.keys).filter(id => this.keys[id]) : [] };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const keyVault = new KeyVault();
@@ -0,0 +1,95 @@
+// src/services/models.ts
+import type { ServiceType } from "@/types/chat";
+import { PROVIDER_DEFAULTS, type ProviderConfig, type ProviderId } from "@/services/providers";
+import { PersistedStore } from "@/services/storage/persisted";
+
+export interface ModelInfo {
+  id: string;
+  provider: ProviderId;
+  name: string;
+  contextWindow: number;
+  // USD per million tokens; 0 for free models
+  pricing: { input: number; output: number };
+  vision: boolean;
+}
+
+export const MODEL_CATALOG: ModelInfo[] = [
+  { id: 'qwen/qwen-2.5-72b-instruct:free', provider: 'openrouter', name: 'Qwen 2.5 72B', contextWindow: 32768, pricing: { input: 0, output: 0 }, vision: false },
+  { id: 'qwen/qwen-2.5-coder-32b-instruct:free', provider: 'openrouter', name: 'Qwen 2.5 Coder 32B', contextWindow: 32768, pricing: { input: 0, output: 0 }, vision: false },
+  { id: 'meta-llama/llama-3.3-70b-instruct:free', provider: 'openrouter', name: 'Llama 3.3 70B', contextWindow: 131072, pricing: { input: 0, output: 0 }, vision: false },
+  { id: 'google/gemini-2.0-flash-exp:free', provider: 'openrouter', name: 'Gemini 2.0 Flash', contextWindow: 1048576, pricing: { input: 0, output: 0 }, vision: true },
+  { id: 'deepseek/deepseek-chat', provider: 'openrouter', name: 'DeepSeek V3', contextWindow: 65536, pricing: { input: 0.27, output: 1.1 }, vision: false },
+  { id: 'openai/gpt-4o-mini', provider: 'openrouter', name: 'GPT-4o mini', contextWindow: 128000, pricing: { input: 0.15, output: 0.6 }, vision: true },
+  { id: 'anthropic/claude-3.5-sonnet', provider: 'openrouter', name: 'Claude 3.5 Sonnet', contextWindow: 200000, pricing: { input: 3, output: 15 }, vision: true },
+  { id: 'gpt-4o-mini', provider: 'openai', name: 'GPT-4o mini', contextWindow: 128000, pricing: { input: 0.15, output: 0.6 }, vision: true },
+  { id: 'gpt-4o', provider: 'openai', name: 'GPT-4o', contextWindow: 128000, pricing: { input: 2.5, output: 10 }, vision: true },
+  { id: 'o3-mini', provider: 'openai', name: 'o3-mini', contextWindow: 200000, pricing: { input: 1.1, output: 4.4 }, vision: false },
+  { id: 'llama3.1', provider: 'ollama', name: 'Llama 3.1 8B', contextWindow: 131072, pricing: { input: 0, output: 0 }, vision: false },
+  { id: 'qwen2.5-coder', provider: 'ollama', name: 'Qwen 2.5 Coder 7B', contextWindow: 32768, pricing: { input: 0, output: 0 }, vision: false },
+  { id: 'llava', provider: 'ollama', name: 'LLaVA 7B', contextWindow: 4096, pricing: { input: 0, output: 0 }, vision: true },
+  { id: 'PandaNexus-Mock', provider: 'mock', name: 'PandaNexus Mock', contextWindow: 8192, pricing: { input: 0, output: 0 }, vision: true },
+];
+
+export const SERVICE_LABELS: Record<ServiceType, string> = {
+  auto: 'Auto',
+  code: 'Code',
+  creative: 'Creative',
+  knowledge: 'Knowledge',
+  general: 'Chat',
+};
+
+export type ModelRoutes = Partial<Record<ServiceType, string>>;
+
+// Built-in routes for the providers' own endpoints; services without one use the configured model
+const DEFAULT_ROUTES: Partial<Record<ProviderId, ModelRoutes>> = {
+  openrouter: {
+    code: 'qwen/qwen-2.5-coder-32b-instruct:free',
+    creative: 'meta-llama/llama-3.3-70b-instruct:free',
+    knowledge: 'google/gemini-2.0-flash-exp:free',
+  },
+  openai: { code: 'gpt-4o' },
+  ollama: { code: 'qwen2.5-coder' },
+};
+
+export const modelsFor = (provider: ProviderId) => MODEL_CATALOG.filter(m => m.provider === provider);
+
+export const findModel = (id: string | undefined, provider?: ProviderId) =>
+  MODEL_CATALOG.find(m => m.id === id && (!provider || m.provider === provider));
+
+// Catalog name for a model id, or the id itself for models outside the catalog
+export const modelLabel = (id: string) => findModel(id)?.name ?? id;
+
+export const formatContext = (tokens: number) => {
+  if (tokens >= 1000000) return `${Math.round(tokens / 1000000)}M`;
+  return `${tokens % 1024 === 0 ? tokens / 1024 : Math.round(tokens / 1000)}K`;
+};
+
+export const formatPricing = ({ input, output }: ModelInfo['pricing']) =>
+  input === 0 && output === 0 ? 'Free' : `$${input} / $${output} per 1M`;
+
+const ROUTES_META = 'modelRoutes';
+
+type RouteTable = Partial<Record<ProviderId, ModelRoutes>>;
+
+// Which model answers each service, per provider. User choices override the built-in routes.
+class ModelRouter extends PersistedStore<RouteTable> {
+  constructor() {
+    super(ROUTES_META, 'model routes', {});
+  }
+
+  modelFor(config: ProviderConfig, service: ServiceType): string {
+    const defaults = config.baseUrl === PROVIDER_DEFAULTS[config.id].baseUrl ? DEFAULT_ROUTES[config.id] : undefined;
+    return this.state[config.id]?.[service] ?? defaults?.[service] ?? config.model;
+  }
+
+  setRoute(provider: ProviderId, service: ServiceType, model: string): Promise<void> {
+    return this.save({ ...this.state, [provider]: { ...this.state[provider], [service]: model } });
+  }
+
+  resetRoutes(provider: ProviderId): Promise<void> {
+    const { [provider]: _removed, ...rest } = this.state;
+    return this.save(rest);
+  }
+}
+
+export const modelRouter = new ModelRouter();
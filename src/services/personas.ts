@@ -0,0 +1,183 @@
+// src/services/personas.ts
+import type { RoutedService } from "@/types/chat";
+import { PersistedStore } from "@/services/storage/persisted";
+
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  // System prompt template; {{variables}} are filled in per request
+  prompt: string;
+  builtIn?: boolean;
+}
+
+export interface PromptVariables {
+  date: string;
+  time: string;
+  locale: string;
+  service?: string;
+  language?: string;
+  project?: string;
+}
+
+export const PROMPT_VARIABLES: { name: keyof PromptVariables; description: string }[] = [
+  { name: 'date', description: "Today's date" },
+  { name: 'time', description: 'Current time' },
+  { name: 'locale', description: "The browser's language" },
+  { name: 'service', description: 'Service answering the message' },
+  { name: 'language', description: 'Language selected in Code Studio' },
+  { name: 'project', description: 'Open Code Studio project' },
+];
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: 'builtin-code',
+    name: 'Senior Engineer',
+    description: 'Precise, complete code with short explanations',
+    prompt: 'You are a senior software engineer. Answer with complete, working code in fenced blocks tagged with their language, and keep explanations short. Prefer {{language|the language that best fits the task}} when no other language is asked for. Open project: {{project|none}}. Today is {{date}}.',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-creative',
+    name: 'Creative Partner',
+    description: 'Vivid writing and fresh ideas',
+    prompt: 'You are an imaginative creative partner. Write with vivid, original language, offer unexpected ideas, and match the tone the user asks for. Today is {{date}}.',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-knowledge',
+    name: 'Researcher',
+    description: 'Accurate, structured explanations',
+    prompt: 'You are a careful researcher. Give accurate, well-structured answers, separate facts from opinion, and say when you are unsure rather than guessing. Today is {{date}}.',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-general',
+    name: 'PandaNexus',
+    description: 'Friendly everyday assistant',
+    prompt: 'You are PandaNexus, a friendly and helpful AI assistant. Be concise and clear, and use Markdown when it helps. Reply in {{locale}} unless the user writes in another language. Today is {{date}}.',
+    builtIn: true,
+  },
+];
+
+const BUILT_IN_DEFAULTS: Record<RoutedService, string> = {
+  code: 'builtin-code',
+  creative: 'builtin-creative',
+  knowledge: 'builtin-knowledge',
+  general: 'builtin-general',
+};
+
+// {{name}} or {{name|fallback}}; unset variables use the fallback or render empty,
+// unknown names are left as written
+export const renderPrompt = (template: string, variables: Partial<PromptVariables>): string =>
+  template
+    .replace(/\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g, (match, name: string, fallback?: string) =>
+      PROMPT_VARIABLES.some(v => v.name === name) ? variables[name as keyof PromptVariables] || (fallback ?? '').trim() : match)
+    .trim();
+
+export const promptVariables = (extra: Partial<PromptVariables> = {}): PromptVariables => {
+  const now = new Date();
+  return {
+    date: now.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }),
+    time: now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+    locale: typeof navigator !== 'undefined' ? navigator.language : 'en',
+    ...extra,
+  };
+};
+
+interface LibraryState {
+  personas: Persona[];
+  // Persona each service uses when a conversation doesn't pick one
+  defaults: Partial<Record<RoutedService, string>>;
+}
+
+interface PersonaExport {
+  version: 1;
+  personas: Omit<Persona, 'id' | 'builtIn'>[];
+}
+
+const PERSONAS_META = 'personas';
+
+// Built-in personas plus the user's own, and which one each service uses by default
+class PersonaLibrary extends PersistedStore<LibraryState> {
+  constructor() {
+    super(PERSONAS_META, 'personas', { personas: [], defaults: {} });
+  }
+
+  all(): Persona[] {
+    return [...BUILT_IN_PERSONAS, ...this.state.personas];
+  }
+
+  get(id: string | undefined): Persona | undefined {
+    return this.all().find(p => p.id === id);
+  }
+
+  defaultFor(service: RoutedService): Persona {
+    return this.get(this.state.defaults[service]) ?? this.get(BUILT_IN_DEFAULTS[service])!;
+  }
+
+  // The conversation's pick if it still exists, else the service default
+  personaFor(service: RoutedService, personaId?: string): Persona {
+    return this.get(personaId) ?? this.defaultFor(service);
+  }
+
+  systemPrompt(service: RoutedService, personaId: string | undefined, variables: Partial<PromptVariables>): string {
+    return renderPrompt(this.personaFor(service, personaId).prompt, promptVariables({ service, ...variables }));
+  }
+
+  setDefault(service: RoutedService, id: string): Promise<void> {
+    const { [service]: _previous, ...defaults } = this.state.defaults;
+    return this.save({ ...this.state, defaults: id === BUILT_IN_DEFAULTS[service] ? defaults : { ...defaults, [service]: id } });
+  }
+
+  // Adds a new persona or replaces the user persona with the same id
+  savePersona(persona: Persona): Promise<void> {
+    if (persona.builtIn) return Promise.reject(new Error('Built-in personas cannot be changed'));
+    const exists = this.state.personas.some(p => p.id === persona.id);
+    const personas = exists
+      ? this.state.personas.map(p => (p.id === persona.id ? persona : p))
+      : [...this.state.personas, persona];
+    return this.save({ ...this.state, personas });
+  }
+
+  removePersona(id: string): Promise<void> {
+    const defaults = Object.fromEntries(Object.entries(this.state.defaults).filter(([, value]) => value !== id));
+    return this.save({ personas: this.state.personas.filter(p => p.id !== id), defaults });
+  }
+
+  exportJson(): string {
+    const data: PersonaExport = {
+      version: 1,
+      personas: this.state.personas.map(({ name, description, prompt }) => ({ name, description, prompt })),
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  // Accepts an export file or a bare array; returns how many personas were added
+  async importJson(text: string): Promise<number> {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Not a JSON file');
+    }
+    const entries = Array.isArray(data) ? data : (data as Partial<PersonaExport>)?.personas;
+    if (!Array.isArray(entries)) throw new Error('No personas found in the file');
+
+    const imported = entries
+      .filter((p): p is PersonaExport['personas'][number] =>
+        typeof p?.name === 'string' && typeof p?.prompt === 'string' && !!p.name.trim() && !!p.prompt.trim())
+      .map((p, index) => ({
+        id: `persona-${Date.now().toString(36)}-${index}`,
+        name: p.name.trim(),
+        description: typeof p.description === 'string' ? p.description : '',
+        prompt: p.prompt,
+      }));
+    if (imported.length === 0) throw new Error('Each persona needs a name and a prompt');
+
+    await this.save({ ...this.state, personas: [...this.state.personas, ...imported] });
+    return imported.length;
+  }
+}
+
+export const personaLibrary = new PersonaLibrary();
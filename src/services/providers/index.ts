@@ -0,0 +1,77 @@
+// src/services/providers/index.ts
+import type { AIProvider, KeyCheck, ProviderConfig, ProviderId } from "./types";
+import { OpenAICompatibleProvider } from "./openai";
+import { OpenRouterProvider } from "./openrouter";
+import { OllamaProvider } from "./ollama";
+import { MockProvider } from "./mock";
+
+export type { AIProvider, KeyCheck, ProviderConfig, ProviderId, ProviderRequest } from "./types";
+export { ProviderError, backoffDelay, sleep } from "./stream";
+
+export const PROVIDER_DEFAULTS: Record<ProviderId, { baseUrl: string; model: string }> = {
+  openai: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini' },
+  openrouter: { baseUrl: 'https://openrouter.ai/api/v1', model: 'qwen/qwen-2.5-72b-instruct:free' },
+  ollama: { baseUrl: 'http://localhost:11434', model: 'llama3.1' },
+  mock: { baseUrl: '', model: 'PandaNexus-Mock' },
+};
+
+// Providers that need a key from the user, how their keys look and where to get one
+export const PROVIDER_KEYS: Partial<Record<ProviderId, { label: string; pattern: RegExp; keysUrl: string }>> = {
+  openrouter: { label: 'OpenRouter', pattern: /^sk-or-\S{16,}$/, keysUrl: 'https://openrouter.ai/keys' },
+  openai: { label: 'OpenAI', pattern: /^sk-\S{16,}$/, keysUrl: 'https://platform.openai.com/api-keys' },
+};
+
+// Self-hosted gateways on a custom base URL may not ask for a key at all
+export const keyRequired = (config: ProviderConfig) =>
+  !!PROVIDER_KEYS[config.id] && config.baseUrl === PROVIDER_DEFAULTS[config.id].baseUrl;
+
+const isProviderId = (value: string | undefined): value is ProviderId =>
+  !!value && value in PROVIDER_DEFAULTS;
+
+// Fill in defaults for anything the caller left out
+export function resolveProviderConfig(partial: Partial<ProviderConfig> = {}): ProviderConfig {
+  const id = isProviderId(partial.id) ? partial.id : 'openrouter';
+  const defaults = PROVIDER_DEFAULTS[id];
+
+  return {
+    id,
+    baseUrl: (partial.baseUrl || defaults.baseUrl).replace(/\/+$/, ''),
+    model: partial.model || defaults.model,
+    apiKey: partial.apiKey || undefined,
+  };
+}
+
+// Provider settings from VITE_AI_* variables, so the app can be pointed at any gateway.
+// Keys are never read from the environment: they would end up in the bundle.
+export function providerConfigFromEnv(): ProviderConfig {
+  const env = import.meta.env;
+  return resolveProviderConfig({
+    id: env.VITE_AI_PROVIDER as ProviderId,
+    baseUrl: env.VITE_AI_BASE_URL,
+    model: env.VITE_AI_MODEL,
+  });
+}
+
+export function createProvider(config: ProviderConfig): AIProvider {
+  switch (config.id) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    case 'mock':
+      return new MockProvider(config);
+    case 'openrouter':
+    default:
+      return new OpenRouterProvider(config);
+  }
+}
+
+// Format check first, then ask the provider itself
+export async function validateApiKey(config: ProviderConfig, apiKey: string, signal?: AbortSignal): Promise<KeyCheck> {
+  const info = PROVIDER_KEYS[config.id];
+  const key = apiKey.trim();
+  if (info && keyRequired(config) && !info.pattern.test(key)) {
+    return { ok: false, message: `That doesn't look like an ${info.label} key` };
+  }
+  return createProvider({ ...config, apiKey: key }).checkKey(signal);
+}
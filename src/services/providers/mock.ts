@@ -0,0 +1,47 @@
+// src/services/providers/mock.ts
+import type { AIResponse, AIStreamChunk } from "@/services/aiService";
+import type { AIProvider, KeyCheck, ProviderConfig, ProviderId, ProviderRequest } from "./types";
+import { sleep } from "./stream";
+
+// Local in-process provider for offline development: no network, deterministic replies
+export class MockProvider implements AIProvider {
+  readonly id: ProviderId = 'mock';
+  readonly label = 'Local Mock';
+
+  constructor(readonly config: ProviderConfig, private delayMs: number = 15) {}
+
+  private reply(request: ProviderRequest): string {
+    const last = request.messages[request.messages.length - 1];
+    const prompt = last?.content.trim() || '';
+
+    if (request.service === 'code') {
+      return `Here is a stub for **${prompt.slice(0, 60)}**:\n\n\`\`\`javascript\n// mock response\nfunction main() {\n  console.log(${JSON.stringify(prompt.slice(0, 40))});\n}\n\nmain();\n\`\`\``;
+    }
+    return `🧪 **Mock reply** (${request.service})\n\nYou said: "${prompt.slice(0, 200)}"\n\n• ${request.messages.length} message(s) in context\n• Model: ${request.model}`;
+  }
+
+  async streamChat(request: ProviderRequest, onChunk: (chunk: AIStreamChunk) => void): Promise<AIResponse> {
+    const content = this.reply(request);
+    const words = content.split(' ');
+
+    for (let i = 0; i < words.length; i++) {
+      await sleep(this.delayMs, request.signal);
+      onChunk({
+        chunk: words[i] + (i < words.length - 1 ? ' ' : ''),
+        isFinal: false,
+        model: request.model
+      });
+    }
+
+    onChunk({ chunk: '', isFinal: true, model: request.model });
+    return { content, model: request.model };
+  }
+
+  async ping(): Promise<boolean> {
+    return true;
+  }
+
+  async checkKey(): Promise<KeyCheck> {
+    return { ok: true, message: 'No key needed' };
+  }
+}
@@ -0,0 +1,83 @@
+// src/services/providers/ollama.ts
+import type { AIResponse, AIStreamChunk } from "@/services/aiService";
+import type { AIProvider, KeyCheck, ProviderConfig, ProviderId, ProviderRequest } from "./types";
+import { IDLE_TIMEOUT_MS, ProviderError, openStream, parseFrame, readLines, withReconnect } from "./stream";
+
+interface OllamaChatFrame {
+  model?: string;
+  message?: { content?: string };
+  done?: boolean;
+  error?: string;
+}
+
+// Ollama-style chat: POST /api/chat streaming newline-delimited JSON objects
+export class OllamaProvider implements AIProvider {
+  readonly id: ProviderId = 'ollama';
+  readonly label = 'Ollama';
+
+  constructor(readonly config: ProviderConfig) {}
+
+  async streamChat(request: ProviderRequest, onChunk: (chunk: AIStreamChunk) => void): Promise<AIResponse> {
+    let modelName = request.model;
+    let content = '';
+    let finished = false;
+
+    // Nothing is resumed: a dropped stream is only retried before any text arrived
+    await withReconnect(async () => {
+      const response = await openStream(`${this.config.baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: request.model,
+          stream: true,
+          messages: request.messages.map(m => ({
+            role: m.role,
+            content: m.content,
+            // Ollama wants bare base64, not data URLs
+            ...(m.image ? { images: [m.image.replace(/^data:[^,]*,/, '')] } : {})
+          })),
+          options: {
+            temperature: request.temperature,
+            top_p: request.topP,
+            num_predict: request.maxTokens,
+            presence_penalty: request.presencePenalty,
+            frequency_penalty: request.frequencyPenalty,
+            ...(request.stop.length ? { stop: request.stop } : {}),
+            ...(request.seed !== undefined ? { seed: request.seed } : {})
+          }
+        }),
+        signal: request.signal
+      });
+
+      await readLines(response, line => {
+        if (!line.trim()) return;
+
+        const frame = parseFrame<OllamaChatFrame>(line);
+        if (frame.error) throw new ProviderError(frame.error);
+        if (frame.model) modelName = frame.model;
+
+        const delta = frame.message?.content;
+        if (delta) {
+          content += delta;
+          onChunk({ chunk: delta, isFinal: false, model: modelName });
+        }
+        finished = frame.done === true;
+        return finished;
+      }, IDLE_TIMEOUT_MS);
+      if (!finished) throw new ProviderError('The reply stream ended early', true);
+    }, { signal: request.signal, canRetry: () => !content });
+
+    onChunk({ chunk: '', isFinal: true, model: modelName });
+    return { content, model: modelName };
+  }
+
+  async ping(signal?: AbortSignal): Promise<boolean> {
+    const response = await fetch(`${this.config.baseUrl}/api/tags`, { method: 'GET', signal });
+    return response.ok;
+  }
+
+  // Ollama runs locally without authentication
+  async checkKey(): Promise<KeyCheck> {
+    return { ok: true, message: 'No key needed' };
+  }
+}
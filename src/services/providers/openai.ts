@@ -0,0 +1,165 @@
+// src/services/providers/openai.ts
+import type { AIMessage, AIResponse, AIStreamChunk } from "@/services/aiService";
+import type { AIProvider, KeyCheck, ProviderConfig, ProviderId, ProviderRequest } from "./types";
+import { IDLE_TIMEOUT_MS, ProviderError, openStream, parseFrame, parseJson, withReconnect } from "./stream";
+import { SSEParser, readEvents } from "./sse";
+
+type StreamErrorPayload = { message?: string; code?: number | string } | string;
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  error?: StreamErrorPayload;
+}
+
+const errorMessage = (error: StreamErrorPayload) =>
+  typeof error === 'string' ? error : error.message || 'Provider error';
+
+// OpenAI's o-series reasoning models (o1, o3-mini...) take max_completion_tokens and answer
+// sampling parameters, penalties and stop sequences with a 400
+const isReasoningModel = (model: string) => /^o\d/.test(model);
+
+type OpenAIContent = string | Array<
+  { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }
+>;
+
+// OpenAI-compatible chat completions: POST /chat/completions with SSE `data:` frames
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly id: ProviderId = 'openai';
+  readonly label: string = 'OpenAI-compatible';
+  // An authenticated endpoint that costs nothing to call
+  protected keyCheckPath = '/models';
+
+  constructor(readonly config: ProviderConfig) {}
+
+  protected headers(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  protected toWireMessage(message: AIMessage): { role: string; content: OpenAIContent } {
+    if (!message.image) {
+      return { role: message.role, content: message.content };
+    }
+    return {
+      role: message.role,
+      content: [
+        { type: 'text', text: message.content },
+        { type: 'image_url', image_url: { url: message.image } }
+      ]
+    };
+  }
+
+  protected buildBody(request: ProviderRequest): Record<string, unknown> {
+    if (isReasoningModel(request.model)) {
+      return {
+        model: request.model,
+        messages: request.messages.map(m => this.toWireMessage(m)),
+        stream: true,
+        max_completion_tokens: request.maxTokens
+      };
+    }
+    return {
+      model: request.model,
+      messages: request.messages.map(m => this.toWireMessage(m)),
+      stream: true,
+      temperature: request.temperature,
+      top_p: request.topP,
+      max_tokens: request.maxTokens,
+      presence_penalty: request.presencePenalty,
+      frequency_penalty: request.frequencyPenalty,
+      ...(request.stop.length ? { stop: request.stop } : {}),
+      ...(request.seed !== undefined ? { seed: request.seed } : {})
+    };
+  }
+
+  // A dropped reply is continued by sending the text so far as an assistant message for the
+  // model to extend. Servers that tag events with ids are resumed with Last-Event-ID instead.
+  protected supportsPrefill = false;
+
+  async streamChat(request: ProviderRequest, onChunk: (chunk: AIStreamChunk) => void): Promise<AIResponse> {
+    let modelName = request.model;
+    let content = '';
+    let finished = false;
+
+    const parser = new SSEParser(event => {
+      if (event.type === 'error') {
+        const payload = parseJson<{ error?: StreamErrorPayload }>(event.data);
+        throw new ProviderError(payload?.error ? errorMessage(payload.error) : event.data);
+      }
+      if (event.data === '[DONE]') {
+        finished = true;
+        return true;
+      }
+
+      const data = parseFrame<ChatCompletionChunk>(event.data);
+      if (data.error) throw new ProviderError(errorMessage(data.error));
+      if (data.model) modelName = data.model;
+
+      const choice = data.choices?.[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        onChunk({ chunk: delta, isFinal: false, model: modelName });
+      }
+      if (choice?.finish_reason) finished = true;
+    });
+
+    await withReconnect(async () => {
+      const resumeFromId = !!content && !!parser.lastEventId;
+      const messages = content && !resumeFromId
+        ? [...request.messages, { role: 'assistant' as const, content }]
+        : request.messages;
+
+      const response = await openStream(`${this.config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { ...this.headers(), ...(resumeFromId ? { 'Last-Event-ID': parser.lastEventId } : {}) },
+        body: JSON.stringify(this.buildBody({ ...request, messages })),
+        signal: request.signal
+      });
+      await readEvents(response, parser, IDLE_TIMEOUT_MS);
+      if (!finished) throw new ProviderError('The reply stream ended early', true);
+    }, {
+      signal: request.signal,
+      // Streamed text can only be kept if the provider picks up where it stopped
+      canRetry: () => !content || !!parser.lastEventId || this.supportsPrefill,
+      retryDelay: () => parser.retry
+    });
+
+    onChunk({ chunk: '', isFinal: true, model: modelName });
+    return { content, model: modelName };
+  }
+
+  async ping(signal?: AbortSignal): Promise<boolean> {
+    const response = await fetch(`${this.config.baseUrl}/models`, {
+      method: 'GET',
+      headers: this.headers(),
+      signal
+    });
+    return response.ok;
+  }
+
+  async checkKey(signal?: AbortSignal): Promise<KeyCheck> {
+    if (!this.config.apiKey) return { ok: false, message: 'No key entered' };
+
+    const response = await fetch(`${this.config.baseUrl}${this.keyCheckPath}`, {
+      method: 'GET',
+      headers: this.headers(),
+      signal
+    });
+    if (response.ok) return { ok: true, message: 'Key accepted' };
+    if (response.status === 401 || response.status === 403) {
+      return { ok: false, message: `${this.label} rejected this key` };
+    }
+    return { ok: false, message: `${this.label} answered ${response.status} ${response.statusText}`.trim() };
+  }
+}
@@ -0,0 +1,22 @@
+// src/services/providers/openrouter.ts
+import type { ProviderId } from "./types";
+import { OpenAICompatibleProvider } from "./openai";
+
+// OpenRouter speaks the OpenAI wire format and asks for app attribution headers
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  readonly id: ProviderId = 'openrouter';
+  readonly label: string = 'OpenRouter';
+
+  // The model list is public on OpenRouter, so check the key itself
+  protected keyCheckPath = '/auth/key';
+  // OpenRouter continues a trailing assistant message
+  protected supportsPrefill = true;
+
+  protected headers(): Record<string, string> {
+    return {
+      ...super.headers(),
+      'HTTP-Referer': typeof window !== 'undefined' ? window.location.origin : 'https://pandanexus.dev',
+      'X-Title': 'PandaNexus',
+    };
+  }
+}
@@ -0,0 +1,104 @@
+// src/services/providers/sse.ts
+import { readText } from "./stream";
+
+export interface SSEEvent {
+  // `event:` field, 'message' when the server sent none
+  type: string;
+  // `data:` lines joined with newlines
+  data: string;
+  // Last `id:` seen on the stream, sent back as Last-Event-ID to resume
+  id: string;
+}
+
+// Server-sent events as the HTML spec parses them: LF, CRLF or CR line endings, comments
+// (used as heartbeats), multi-line data and event/id/retry fields. Keep one parser per
+// reply so the last event id and retry delay carry over reconnects.
+export class SSEParser {
+  lastEventId = '';
+  // Reconnect delay in ms requested with `retry:`
+  retry?: number;
+
+  private buffer = '';
+  private data: string[] = [];
+  private eventType = '';
+  private started = false;
+
+  // Return true from onEvent to stop parsing
+  constructor(private onEvent: (event: SSEEvent) => boolean | void) {}
+
+  // Parse the next piece of the stream; true once onEvent asked to stop
+  feed(text: string): boolean {
+    if (!this.started && text) {
+      this.started = true;
+      text = text.replace(/^\uFEFF/, '');
+    }
+    this.buffer += text;
+
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (char === '\r' && i === this.buffer.length - 1) break;
+
+      const line = this.buffer.slice(start, i);
+      if (char === '\r' && this.buffer[i + 1] === '\n') i++;
+      start = i + 1;
+
+      if (this.processLine(line)) {
+        this.buffer = '';
+        return true;
+      }
+    }
+    this.buffer = this.buffer.slice(start);
+    return false;
+  }
+
+  // End of stream: an event without its closing blank line is discarded
+  end(): void {
+    if (this.buffer.endsWith('\r')) this.processLine(this.buffer.slice(0, -1));
+    this.buffer = '';
+    this.data = [];
+    this.eventType = '';
+  }
+
+  private processLine(line: string): boolean {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return false;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+    }
+    return false;
+  }
+
+  private dispatch(): boolean {
+    const { data, eventType } = this;
+    this.data = [];
+    this.eventType = '';
+    if (data.length === 0) return false;
+    return this.onEvent({ type: eventType || 'message', data: data.join('\n'), id: this.lastEventId }) === true;
+  }
+}
+
+// Feed a response body through the parser until it ends or onEvent stops it
+export async function readEvents(response: Response, parser: SSEParser, idleTimeoutMs?: number): Promise<void> {
+  await readText(response, text => parser.feed(text), idleTimeoutMs);
+  parser.end();
+}
@@ -0,0 +1,178 @@
+// src/services/providers/stream.ts
+
+// Longest silence allowed while a reply streams; providers send heartbeats well within it
+export const IDLE_TIMEOUT_MS = 45_000;
+// Reconnects after a dropped stream before the error reaches the caller
+export const MAX_RECONNECTS = 3;
+const RECONNECT_BASE_MS = 500;
+
+// A failed provider call. Dropped connections and timeouts are `retryable`;
+// `status` is set when the provider answered with an HTTP error, and `retryAfterMs`
+// when it said how long to wait.
+export class ProviderError extends Error {
+  constructor(message: string, readonly retryable = false, readonly status?: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// fetch and body readers report network failures as TypeErrors
+const asNetworkError = (error: unknown): unknown =>
+  error instanceof TypeError ? new ProviderError(`Connection lost: ${error.message}`, true) : error;
+
+// Exponential backoff with jitter: base, 2x base, 4x base... each scaled by 0.5-1
+export const backoffDelay = (attempt: number, baseMs = RECONNECT_BASE_MS): number =>
+  Math.round(baseMs * 2 ** attempt * (0.5 + Math.random() / 2));
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Aborted', 'AbortError'));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Decoded text of a response body as it arrives. Returning true from onText stops reading early.
+// With idleTimeoutMs set, a body that goes quiet for that long fails as a retryable drop.
+export async function readText(
+  response: Response,
+  onText: (text: string) => boolean | void,
+  idleTimeoutMs?: number
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new ProviderError('No reader available');
+
+  const decoder = new TextDecoder();
+  const read = () => new Promise<ReadableStreamReadResult<Uint8Array>>((resolve, reject) => {
+    const timer = idleTimeoutMs === undefined ? undefined : setTimeout(() => {
+      reader.cancel().catch(() => {});
+      reject(new ProviderError(`No data received for ${Math.round(idleTimeoutMs / 1000)}s`, true));
+    }, idleTimeoutMs);
+    reader.read().then(
+      result => { clearTimeout(timer); resolve(result); },
+      error => { clearTimeout(timer); reject(asNetworkError(error)); }
+    );
+  });
+
+  try {
+    while (true) {
+      const { done, value } = await read();
+      if (done) break;
+      if (onText(decoder.decode(value, { stream: true })) === true) return;
+    }
+    const rest = decoder.decode();
+    if (rest) onText(rest);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Read a streaming response body line by line, handing each complete line to onLine.
+export async function readLines(
+  response: Response,
+  onLine: (line: string) => boolean | void,
+  idleTimeoutMs?: number
+): Promise<void> {
+  let buffer = '';
+  let stopped = false;
+
+  await readText(response, text => {
+    buffer += text;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      // Returning true from onLine stops reading early
+      if (onLine(line.replace(/\r$/, '')) === true) {
+        stopped = true;
+        return true;
+      }
+    }
+  }, idleTimeoutMs);
+
+  if (!stopped && buffer.trim()) onLine(buffer.replace(/\r$/, ''));
+}
+
+// Parse a JSON payload, returning null for anything malformed
+export function parseJson<T>(text: string): T | null {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Parse a frame of a model stream; a frame that isn't JSON means the stream is broken
+export function parseFrame<T>(text: string): T {
+  const frame = parseJson<T>(text);
+  if (frame === null) throw new ProviderError(`Unreadable frame in the reply stream: ${text.slice(0, 120)}`);
+  return frame;
+}
+
+// Retry-After as seconds or an HTTP date
+const retryAfter = (response: Response): number | undefined => {
+  const header = response.headers.get('retry-after');
+  if (!header) return undefined;
+  const ms = /^\d+$/.test(header) ? Number(header) * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(ms) ? Math.max(ms, 0) : undefined;
+};
+
+export async function assertOk(response: Response): Promise<void> {
+  if (response.ok) return;
+
+  let detail = '';
+  try {
+    detail = (await response.text()).slice(0, 300);
+  } catch {
+    // Body is not readable, the status code alone will do
+  }
+  throw new ProviderError(`API Error: ${response.status}${detail ? ` - ${detail}` : ''}`, false, response.status, retryAfter(response));
+}
+
+// Start a streaming request: network failures become retryable errors, HTTP errors are raised
+export async function openStream(url: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw asNetworkError(error);
+  }
+  await assertOk(response);
+  return response;
+}
+
+export interface ReconnectOptions {
+  signal: AbortSignal;
+  // Whether the reply so far can be picked up again, e.g. nothing was streamed yet
+  canRetry: () => boolean;
+  // Delay the server asked for between reconnects
+  retryDelay?: () => number | undefined;
+}
+
+// Run a streaming attempt, reconnecting with backoff when the connection drops
+export async function withReconnect<T>(
+  attempt: (reconnect: number) => Promise<T>,
+  { signal, canRetry, retryDelay }: ReconnectOptions
+): Promise<T> {
+  for (let reconnect = 0; ; reconnect++) {
+    try {
+      return await attempt(reconnect);
+    } catch (error) {
+      const retry = error instanceof ProviderError && error.retryable
+        && reconnect < MAX_RECONNECTS && !signal.aborted && canRetry();
+      if (!retry) throw error;
+
+      const delay = backoffDelay(reconnect, retryDelay?.());
+      console.warn(`🔁 Stream dropped (${error.message}), reconnecting in ${delay}ms`);
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+// src/services/providers/types.ts
+import type { AIMessage, AIResponse, AIStreamChunk } from "@/services/aiService";
+import type { GenerationParams } from "@/types/chat";
+
+export type ProviderId = 'openai' | 'openrouter' | 'ollama' | 'mock';
+
+export interface ProviderConfig {
+  id: ProviderId;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+export interface ProviderRequest extends GenerationParams {
+  messages: AIMessage[];
+  service: string;
+  model: string;
+  signal: AbortSignal;
+}
+
+export interface KeyCheck {
+  ok: boolean;
+  message: string;
+}
+
+// Every provider speaks its own wire format and reports progress as AIStreamChunks.
+// The returned response holds the complete reply so the caller can cache it.
+export interface AIProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  readonly config: ProviderConfig;
+
+  streamChat(request: ProviderRequest, onChunk: (chunk: AIStreamChunk) => void): Promise<AIResponse>;
+  ping(signal?: AbortSignal): Promise<boolean>;
+  // Ask the provider whether config.apiKey is accepted
+  checkKey(signal?: AbortSignal): Promise<KeyCheck>;
+}
@@ -0,0 +1,167 @@
+// src/services/resilience.ts
+import type { ServiceType } from "@/types/chat";
+import { PROVIDER_DEFAULTS, ProviderError, type ProviderConfig, type ProviderId } from "@/services/providers";
+import { findModel } from "@/services/models";
+import { PersistedStore } from "@/services/storage/persisted";
+
+export interface RetryPolicy {
+  // Extra attempts per model after a rate limit or server error
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 8000 };
+export const MAX_RETRIES = 5;
+
+export type FallbackChains = Partial<Record<ServiceType, string[]>>;
+
+// Models tried in order when a service's model fails, for the providers' own endpoints
+const DEFAULT_FALLBACKS: Partial<Record<ProviderId, string[]>> = {
+  openrouter: ['meta-llama/llama-3.3-70b-instruct:free', 'google/gemini-2.0-flash-exp:free', 'qwen/qwen-2.5-72b-instruct:free'],
+  openai: ['gpt-4o-mini', 'gpt-4o'],
+};
+
+// Rate limits and server errors are worth another try; other HTTP errors won't change
+export const isRetryableStatus = (error: unknown): boolean =>
+  error instanceof ProviderError && error.status !== undefined && (error.status === 429 || error.status >= 500);
+
+// Failures that say the provider itself is struggling, as opposed to a bad request
+export const isProviderFailure = (error: unknown): boolean =>
+  error instanceof ProviderError && (error.status === undefined ? error.retryable : error.status === 429 || error.status >= 500);
+
+// A rejected key won't work on another model either; anything else might
+export const canFallBack = (error: unknown): boolean =>
+  error instanceof ProviderError && error.status !== 401 && error.status !== 403 && (error.status !== undefined || !error.retryable);
+
+interface ResilienceSettings {
+  retry: RetryPolicy;
+  fallbacks: Partial<Record<ProviderId, FallbackChains>>;
+}
+
+const RESILIENCE_META = 'resilience';
+
+// Retry policy and per-service fallback models. User choices override the built-in chains.
+class ResilienceStore extends PersistedStore<ResilienceSettings> {
+  constructor() {
+    super(RESILIENCE_META, 'retry settings', { retry: DEFAULT_RETRY_POLICY, fallbacks: {} });
+  }
+
+  // Settings saved before a field existed get its default
+  protected revive(saved: Partial<ResilienceSettings>): ResilienceSettings {
+    return { retry: { ...DEFAULT_RETRY_POLICY, ...saved.retry }, fallbacks: saved.fallbacks ?? {} };
+  }
+
+  retryPolicy(): RetryPolicy {
+    return this.state.retry;
+  }
+
+  fallbacksFor(config: ProviderConfig, service: ServiceType): string[] {
+    const defaults = config.baseUrl === PROVIDER_DEFAULTS[config.id].baseUrl ? DEFAULT_FALLBACKS[config.id] : undefined;
+    return this.state.fallbacks[config.id]?.[service] ?? defaults ?? [];
+  }
+
+  // The model followed by its fallbacks, skipping repeats and, for images, models that can't see
+  chainFor(config: ProviderConfig, service: ServiceType, model: string, hasImage = false): string[] {
+    const fallbacks = this.fallbacksFor(config, service)
+      .filter(id => id !== model && (!hasImage || findModel(id, config.id)?.vision !== false));
+    return [model, ...new Set(fallbacks)];
+  }
+
+  setRetries(maxRetries: number): Promise<void> {
+    const retries = Math.min(Math.max(Math.round(maxRetries), 0), MAX_RETRIES);
+    return this.save({ ...this.state, retry: { ...this.state.retry, maxRetries: retries } });
+  }
+
+  setFallbacks(provider: ProviderId, service: ServiceType, models: string[]): Promise<void> {
+    const chains = { ...this.state.fallbacks[provider], [service]: models };
+    return this.save({ ...this.state, fallbacks: { ...this.state.fallbacks, [provider]: chains } });
+  }
+
+  resetFallbacks(provider: ProviderId): Promise<void> {
+    const { [provider]: _removed, ...rest } = this.state.fallbacks;
+    return this.save({ ...this.state, fallbacks: rest });
+  }
+}
+
+export const resilience = new ResilienceStore();
+
+// Raised instead of calling a provider whose circuit breaker is open
+export class CircuitOpenError extends ProviderError {
+  constructor(readonly retryInMs: number) {
+    super(`Paused after repeated failures, trying again in ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Stops calling a provider after `threshold` failures in a row. Once `cooldownMs` has passed
+// a single trial request goes through: success closes the circuit, failure opens it again.
+// Requests arriving during the trial wait for its result.
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trial: { settled: Promise<void>; settle: () => void } | null = null;
+
+  constructor(private threshold = 5, private cooldownMs = 30_000) {}
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  // Resolves to whether the request is the trial; throws CircuitOpenError when it should not be sent
+  async acquire(signal?: AbortSignal): Promise<boolean> {
+    while (true) {
+      const state = this.state;
+      if (state === 'closed') return false;
+      if (state === 'open') {
+        throw new CircuitOpenError(Math.max((this.openedAt ?? 0) + this.cooldownMs - Date.now(), 0));
+      }
+      if (!this.trial) {
+        let settle = () => {};
+        const settled = new Promise<void>(resolve => { settle = resolve; });
+        this.trial = { settled, settle };
+        return true;
+      }
+      await this.waitForTrial(this.trial.settled, signal);
+    }
+  }
+
+  recordSuccess(trial = false): void {
+    this.failures = 0;
+    this.openedAt = null;
+    if (trial) this.endTrial();
+  }
+
+  recordFailure(trial = false): void {
+    this.failures++;
+    if (trial || this.failures >= this.threshold) this.openedAt = Date.now();
+    if (trial) this.endTrial();
+  }
+
+  // A request that ended without saying anything about the provider, e.g. cancelled
+  release(trial = false): void {
+    if (trial) this.endTrial();
+  }
+
+  private endTrial(): void {
+    this.trial?.settle();
+    this.trial = null;
+  }
+
+  private waitForTrial(settled: Promise<void>, signal?: AbortSignal): Promise<void> {
+    if (!signal) return settled;
+    return new Promise<void>((resolve, reject) => {
+      if (signal.aborted) {
+        reject(new DOMException('Aborted', 'AbortError'));
+        return;
+      }
+      const onAbort = () => reject(new DOMException('Aborted', 'AbortError'));
+      signal.addEventListener('abort', onAbort, { once: true });
+      settled.then(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      });
+    });
+  }
+}
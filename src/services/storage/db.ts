@@ -0,0 +1,76 @@
+// src/services/storage/db.ts
+export const DB_NAME = 'pandanexus';
+
+export const STORES = {
+  conversations: 'conversations',
+  messages: 'messages',
+  attachments: 'attachments',
+  projects: 'projects',
+  meta: 'meta',
+  snapshots: 'snapshots',
+} as const;
+
+// Each entry upgrades the schema from version (index) to version (index + 1).
+// Append new migrations to the end; never edit one that has shipped.
+const migrations: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  // v1: conversations, per-message records, attachment blobs, projects, deployment snapshots and app metadata
+  (db) => {
+    db.createObjectStore(STORES.conversations, { keyPath: 'id' });
+
+    const messages = db.createObjectStore(STORES.messages, { keyPath: ['threadId', 'id'] });
+    messages.createIndex('threadId', 'threadId', { unique: false });
+
+    const attachments = db.createObjectStore(STORES.attachments, { keyPath: 'id' });
+    attachments.createIndex('threadId', 'threadId', { unique: false });
+
+    db.createObjectStore(STORES.projects, { keyPath: 'id' });
+    db.createObjectStore(STORES.snapshots, { keyPath: 'hash' });
+    db.createObjectStore(STORES.meta, { keyPath: 'key' });
+  },
+];
+
+export const DB_VERSION = migrations.length;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        console.log(`🗄️ Migrating storage schema to v${version + 1}`);
+        migrations[version](db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; let it proceed and reload on next access
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('🗄️ Storage upgrade blocked by another open tab');
+  });
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
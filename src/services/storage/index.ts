@@ -0,0 +1,309 @@
+// src/services/storage/index.ts
+import type { Conversation } from "@/types/chat";
+import type { DeploymentSnapshot, Project } from "@/types/project";
+import { deploymentHashes } from "@/lib/deployments";
+import { STORES, openDatabase, requestToPromise, transactionDone } from "./db";
+import { clearLegacyData, readLegacyData } from "./legacy";
+
+// Thread id under which Code Studio keeps its single running history
+export const CODE_STUDIO_THREAD = 'code-studio';
+
+// Anything that can live in a message list: chat messages, Code Studio messages, ...
+export interface StorableMessage {
+  id: string;
+  timestamp: Date;
+  image?: string;
+  isStreaming?: boolean;
+}
+
+type ConversationRecord = Omit<Conversation, 'messages'>;
+
+type MessageRecord = Omit<StorableMessage, 'image' | 'isStreaming'> & {
+  threadId: string;
+  position: number;
+  image?: string;
+  attachmentId?: string;
+};
+
+interface AttachmentRecord {
+  id: string;
+  threadId: string;
+  blob: Blob;
+}
+
+interface MetaRecord {
+  key: string;
+  value: unknown;
+}
+
+const LEGACY_IMPORTED_KEY = 'legacyImported';
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// IndexedDB-backed persistence. Messages are stored one record per message and
+// image data URLs are split off into attachment blobs, so saving a conversation
+// only writes what actually changed.
+export class StorageService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // Last persisted state per thread, compared by reference to find changed messages
+  private snapshots = new Map<string, Map<string, { message: StorableMessage; position: number }>>();
+  // Writes are chained so a later sync never lands before an earlier one
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase()
+        .then(async db => {
+          await this.importLegacy(db);
+          return db;
+        })
+        .catch(error => {
+          this.dbPromise = null;
+          throw error;
+        });
+    }
+    return this.dbPromise;
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writeQueue.then(write);
+    this.writeQueue = next.catch(error => console.error('🗄️ Storage write failed:', error));
+    return next;
+  }
+
+  // One-time move of everything the localStorage versions of the app saved
+  private async importLegacy(db: IDBDatabase): Promise<void> {
+    const tx = db.transaction(STORES.meta, 'readonly');
+    const imported = await requestToPromise(tx.objectStore(STORES.meta).get(LEGACY_IMPORTED_KEY));
+    if (imported) return;
+
+    const legacy = readLegacyData();
+
+    for (const conversation of legacy.conversations) {
+      await this.writeConversation(db, conversation);
+    }
+    await this.writeThread(db, CODE_STUDIO_THREAD, legacy.codeHistory);
+
+    const writeTx = db.transaction([STORES.projects, STORES.meta], 'readwrite');
+    legacy.projects.forEach(project => writeTx.objectStore(STORES.projects).put(project));
+    if (legacy.activeConversationId) {
+      writeTx.objectStore(STORES.meta).put({ key: 'activeConversationId', value: legacy.activeConversationId });
+    }
+    writeTx.objectStore(STORES.meta).put({ key: LEGACY_IMPORTED_KEY, value: new Date() });
+    await transactionDone(writeTx);
+
+    clearLegacyData();
+    console.log(`🗄️ Imported ${legacy.conversations.length} conversation(s) and ${legacy.projects.length} project(s) from localStorage`);
+  }
+
+  private async writeConversation(db: IDBDatabase, conversation: Conversation): Promise<void> {
+    const { messages, ...record } = conversation;
+    const tx = db.transaction(STORES.conversations, 'readwrite');
+    tx.objectStore(STORES.conversations).put(record);
+    await transactionDone(tx);
+    await this.writeThread(db, conversation.id, messages);
+  }
+
+  private async writeThread(db: IDBDatabase, threadId: string, messages: StorableMessage[]): Promise<void> {
+    const snapshot = this.snapshots.get(threadId) || new Map();
+    const changed = messages
+      .map((message, position) => ({ message, position }))
+      .filter(({ message, position }) => {
+        // Streaming replies are written once they finish, not on every chunk
+        if (message.isStreaming) return false;
+        const previous = snapshot.get(message.id);
+        return !previous || previous.message !== message || previous.position !== position;
+      });
+    const currentIds = new Set(messages.map(m => m.id));
+    const removed = [...snapshot.keys()].filter(id => !currentIds.has(id));
+
+    if (changed.length === 0 && removed.length === 0) return;
+
+    // Blob conversion is async and must finish before the transaction opens
+    const records = await Promise.all(changed.map(async ({ message, position }) => {
+      const { image, isStreaming, ...rest } = message;
+      const record: MessageRecord = { ...rest, threadId, position };
+      let attachment: AttachmentRecord | null = null;
+
+      if (image?.startsWith('data:')) {
+        record.attachmentId = `${threadId}:${message.id}`;
+        attachment = { id: record.attachmentId, threadId, blob: await dataUrlToBlob(image) };
+      } else if (image) {
+        record.image = image;
+      }
+      return { record, attachment };
+    }));
+
+    const tx = db.transaction([STORES.messages, STORES.attachments], 'readwrite');
+    const messageStore = tx.objectStore(STORES.messages);
+    const attachmentStore = tx.objectStore(STORES.attachments);
+
+    for (const { record, attachment } of records) {
+      messageStore.put(record);
+      // A message that no longer carries an image drops the blob it had
+      if (attachment) attachmentStore.put(attachment);
+      else attachmentStore.delete(`${threadId}:${record.id}`);
+    }
+    for (const id of removed) {
+      messageStore.delete([threadId, id]);
+      attachmentStore.delete(`${threadId}:${id}`);
+    }
+    await transactionDone(tx);
+
+    changed.forEach(({ message, position }) => snapshot.set(message.id, { message, position }));
+    removed.forEach(id => snapshot.delete(id));
+    this.snapshots.set(threadId, snapshot);
+  }
+
+  async loadThread<M extends StorableMessage>(threadId: string): Promise<M[]> {
+    const db = await this.db();
+    const tx = db.transaction([STORES.messages, STORES.attachments], 'readonly');
+    const records = await requestToPromise(
+      tx.objectStore(STORES.messages).index('threadId').getAll(threadId)
+    ) as MessageRecord[];
+    const attachments = await requestToPromise(
+      tx.objectStore(STORES.attachments).index('threadId').getAll(threadId)
+    ) as AttachmentRecord[];
+
+    const blobs = new Map(attachments.map(a => [a.id, a.blob]));
+    records.sort((a, b) => a.position - b.position);
+
+    const messages = await Promise.all(records.map(async ({ threadId: _thread, position: _position, attachmentId, ...rest }) => {
+      const blob = attachmentId ? blobs.get(attachmentId) : undefined;
+      const message = { ...rest } as unknown as M;
+      if (blob) message.image = await blobToDataUrl(blob);
+      return message;
+    }));
+
+    this.snapshots.set(threadId, new Map(messages.map((message, position) => [message.id, { message, position }])));
+    return messages;
+  }
+
+  // Persist only the messages of a thread that changed since the last save
+  syncThread(threadId: string, messages: StorableMessage[]): Promise<void> {
+    return this.enqueue(async () => this.writeThread(await this.db(), threadId, messages));
+  }
+
+  async loadConversations(): Promise<Conversation[]> {
+    const db = await this.db();
+    const tx = db.transaction(STORES.conversations, 'readonly');
+    const records = await requestToPromise(tx.objectStore(STORES.conversations).getAll()) as ConversationRecord[];
+
+    return Promise.all(records.map(async record => ({
+      ...record,
+      messages: await this.loadThread(record.id)
+    })));
+  }
+
+  saveConversation(conversation: Conversation): Promise<void> {
+    return this.enqueue(async () => this.writeConversation(await this.db(), conversation));
+  }
+
+  deleteConversation(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const db = await this.db();
+      const tx = db.transaction([STORES.conversations, STORES.messages, STORES.attachments], 'readwrite');
+      tx.objectStore(STORES.conversations).delete(id);
+
+      const range = IDBKeyRange.only(id);
+      for (const storeName of [STORES.messages, STORES.attachments]) {
+        const keys = await requestToPromise(tx.objectStore(storeName).index('threadId').getAllKeys(range));
+        keys.forEach(key => tx.objectStore(storeName).delete(key));
+      }
+      await transactionDone(tx);
+      this.snapshots.delete(id);
+    });
+  }
+
+  async loadProjects(): Promise<Project[]> {
+    const db = await this.db();
+    const tx = db.transaction(STORES.projects, 'readonly');
+    const projects = await requestToPromise(tx.objectStore(STORES.projects).getAll()) as Project[];
+    return projects.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  saveProject(project: Project): Promise<void> {
+    return this.enqueue(async () => {
+      const db = await this.db();
+      const tx = db.transaction([STORES.projects, STORES.snapshots], 'readwrite');
+      const projects = tx.objectStore(STORES.projects);
+      const previous = await requestToPromise(projects.get(project.id)) as Project | undefined;
+      projects.put(project);
+
+      const kept = new Set(deploymentHashes(project));
+      await this.dropUnusedSnapshots(tx, deploymentHashes(previous).filter(hash => !kept.has(hash)));
+      await transactionDone(tx);
+    });
+  }
+
+  deleteProject(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const db = await this.db();
+      const tx = db.transaction([STORES.projects, STORES.snapshots], 'readwrite');
+      const projects = tx.objectStore(STORES.projects);
+      const previous = await requestToPromise(projects.get(id)) as Project | undefined;
+      projects.delete(id);
+
+      await this.dropUnusedSnapshots(tx, deploymentHashes(previous));
+      await transactionDone(tx);
+    });
+  }
+
+  async loadSnapshot(hash: string): Promise<DeploymentSnapshot | undefined> {
+    const db = await this.db();
+    const tx = db.transaction(STORES.snapshots, 'readonly');
+    return await requestToPromise(tx.objectStore(STORES.snapshots).get(hash)) as DeploymentSnapshot | undefined;
+  }
+
+  // Snapshots are keyed by content hash, so saving the same files twice stores them once
+  saveSnapshot(snapshot: DeploymentSnapshot): Promise<void> {
+    return this.enqueue(async () => {
+      const db = await this.db();
+      const tx = db.transaction(STORES.snapshots, 'readwrite');
+      tx.objectStore(STORES.snapshots).put(snapshot);
+      await transactionDone(tx);
+    });
+  }
+
+  // Delete the snapshots among `hashes` that no stored project's history refers to any more
+  private async dropUnusedSnapshots(tx: IDBTransaction, hashes: string[]): Promise<void> {
+    if (hashes.length === 0) return;
+    const projects = await requestToPromise(tx.objectStore(STORES.projects).getAll()) as Project[];
+    const used = new Set(projects.flatMap(project => deploymentHashes(project)));
+    hashes.filter(hash => !used.has(hash)).forEach(hash => tx.objectStore(STORES.snapshots).delete(hash));
+  }
+
+  async getMeta<T>(key: string): Promise<T | undefined> {
+    const db = await this.db();
+    const tx = db.transaction(STORES.meta, 'readonly');
+    const record = await requestToPromise(tx.objectStore(STORES.meta).get(key)) as MetaRecord | undefined;
+    return record?.value as T | undefined;
+  }
+
+  setMeta(key: string, value: unknown): Promise<void> {
+    return this.enqueue(async () => {
+      const db = await this.db();
+      const tx = db.transaction(STORES.meta, 'readwrite');
+      tx.objectStore(STORES.meta).put({ key, value } satisfies MetaRecord);
+      await transactionDone(tx);
+    });
+  }
+
+  deleteMeta(key: string): Promise<void> {
+    return this.enqueue(async () => {
+      const db = await this.db();
+      const tx = db.transaction(STORES.meta, 'readwrite');
+      tx.objectStore(STORES.meta).delete(key);
+      await transactionDone(tx);
+    });
+  }
+}
+
+export const storage = new StorageService();
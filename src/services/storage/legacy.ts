@@ -0,0 +1,80 @@
+// src/services/storage/legacy.ts
+import type { Conversation, Message } from "@/types/chat";
+import type { Project } from "@/types/project";
+import { createConversation, titleFromMessage } from "@/lib/conversations";
+
+// Keys written by the localStorage-only versions of the app
+export const LEGACY_KEYS = {
+  conversations: 'pandanexus-conversations',
+  activeConversation: 'pandanexus-active-conversation',
+  chatHistory: 'pandanexus-chat-history',
+  codeHistory: 'pandanexus-code-history',
+  projects: 'pandanexus-projects',
+} as const;
+
+// Fixed id for the imported single-chat history, so a retried import overwrites it
+const LEGACY_CHAT_ID = 'legacy-chat';
+
+type Stored<T, K extends keyof T> = Omit<T, K> & { [P in K]: string };
+type StoredMessage = Stored<Message, 'timestamp'>;
+type StoredConversation = Omit<Stored<Conversation, 'createdAt' | 'updatedAt'>, 'messages'> & { messages?: StoredMessage[] };
+
+export interface LegacyData {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  codeHistory: Array<Message & Record<string, unknown>>;
+  projects: Project[];
+}
+
+const readJson = <T>(key: string): T | null => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (e) {
+    console.error(`Error reading ${key}:`, e);
+    return null;
+  }
+};
+
+const reviveMessages = <M extends { timestamp: string }>(messages: M[]) =>
+  messages.map(msg => ({
+    ...msg,
+    timestamp: new Date(msg.timestamp),
+    // A reload mid-stream leaves nothing to finish the message
+    isStreaming: false
+  }));
+
+export function readLegacyData(): LegacyData {
+  const conversations: Conversation[] = (readJson<StoredConversation[]>(LEGACY_KEYS.conversations) || []).map(conv => ({
+    ...conv,
+    messages: reviveMessages(conv.messages || []),
+    createdAt: new Date(conv.createdAt),
+    updatedAt: new Date(conv.updatedAt)
+  }));
+
+  // The single pre-workspace history becomes a conversation of its own
+  const chatHistory = readJson<StoredMessage[]>(LEGACY_KEYS.chatHistory);
+  if (chatHistory && chatHistory.length > 0) {
+    const conversation = { ...createConversation('auto', reviveMessages(chatHistory)), id: LEGACY_CHAT_ID };
+    const firstPrompt = conversation.messages.find(m => m.role === 'user');
+    if (firstPrompt) conversation.title = titleFromMessage(firstPrompt.content);
+    conversations.push(conversation);
+  }
+
+  const projects = (readJson<Array<Stored<Project, 'createdAt'>>>(LEGACY_KEYS.projects) || []).map(project => ({
+    ...project,
+    createdAt: new Date(project.createdAt)
+  }));
+
+  return {
+    conversations,
+    activeConversationId: localStorage.getItem(LEGACY_KEYS.activeConversation),
+    codeHistory: reviveMessages(readJson<Array<StoredMessage & Record<string, unknown>>>(LEGACY_KEYS.codeHistory) || []),
+    projects
+  };
+}
+
+export function clearLegacyData(): void {
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+}
@@ -0,0 +1,46 @@
+// src/services/storage/persisted.ts
+import { storage } from "@/services/storage";
+
+// Settings kept under one meta key and read by components through useSyncExternalStore.
+// Loading starts with the first subscriber; writes show up in memory before they are saved.
+export abstract class PersistedStore<T> {
+  private loaded: Promise<void> | null = null;
+  // Set once anything is saved, so a load that finishes later doesn't undo it
+  private dirty = false;
+  private listeners = new Set<() => void>();
+
+  constructor(private readonly metaKey: string, private readonly description: string, protected state: T) {}
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    this.load();
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = () => this.state;
+
+  load(): Promise<void> {
+    this.loaded ??= storage.getMeta<T>(this.metaKey)
+      .then(saved => {
+        if (saved && !this.dirty) this.update(this.revive(saved));
+      })
+      .catch(error => console.error(`Failed to load ${this.description}:`, error));
+    return this.loaded;
+  }
+
+  // What was saved, as state; override to fill in fields added since
+  protected revive(saved: T): T {
+    return saved;
+  }
+
+  protected save(state: T): Promise<void> {
+    this.dirty = true;
+    this.update(state);
+    return storage.setMeta(this.metaKey, state);
+  }
+
+  private update(state: T): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,76 @@
+// src/types/chat.ts
+export type ServiceType = 'auto' | 'code' | 'creative' | 'knowledge' | 'general';
+
+// The services Auto can pick between
+export type RoutedService = Exclude<ServiceType, 'auto'>;
+
+// How Auto routed a message, kept on the reply
+export interface RouteDecision {
+  service: RoutedService;
+  // Share of the classifier's score that went to `service`, 0-1
+  confidence: number;
+  reasons: string[];
+  classifier: string;
+  // The service the user says it should have been
+  correction?: RoutedService;
+}
+
+export interface Message {
+  id: string;
+  content: string;
+  role: 'user' | 'assistant';
+  timestamp: Date;
+  image?: string;
+  imageUrl?: string;
+  isStreaming?: boolean;
+  model?: string;
+  // The model that was asked first, when `model` answered in its place
+  fallbackFrom?: string;
+  route?: RouteDecision;
+  // Always sent as context, however long the conversation gets
+  pinned?: boolean;
+  // A prompt sent while offline, waiting for the connection to come back
+  queued?: boolean;
+  // The message this one follows; null for a root. Edits and regenerations share a parent.
+  parentId?: string | null;
+}
+
+// Sampling settings sent with each request
+export interface GenerationParams {
+  temperature: number;
+  topP: number;
+  maxTokens: number;
+  stop: string[];
+  presencePenalty: number;
+  frequencyPenalty: number;
+  // Unset for a fresh sample every time
+  seed?: number;
+}
+
+// Older turns compressed by the model; they stay visible but are sent as this summary
+export interface ConversationSummary {
+  content: string;
+  // Last message the summary covers
+  throughId: string;
+  messageCount: number;
+  createdAt: Date;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: Message[];
+  service: ServiceType;
+  pinned: boolean;
+  // Overrides on top of the service's preset
+  params?: Partial<GenerationParams>;
+  // Persona whose system prompt leads every request; unset uses the service default
+  personaId?: string;
+  summary?: ConversationSummary;
+  // End of the branch being shown; unset follows the newest message
+  activeLeafId?: string;
+  // Rolling summarization; on unless turned off
+  summarize?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,4 @@
+// src/types/deploy.ts
+
+// Where a Code Studio project can be published
+export type DeployTargetId = 'vercel' | 'netlify' | 'github-pages' | 'zip';
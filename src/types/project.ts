@@ -0,0 +1,42 @@
+// src/types/project.ts
+import type { DeployTargetId } from "@/types/deploy";
+
+export interface ProjectFile {
+  name: string;
+  content: string;
+  language: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string;
+  language: string;
+  files: ProjectFile[];
+  createdAt: Date;
+  deployUrl?: string;
+  // Newest first, capped so the history doesn't grow without bound
+  deployments?: DeploymentRecord[];
+}
+
+export type DeploymentStatus = 'success' | 'error' | 'cancelled';
+
+export interface DeploymentRecord {
+  id: string;
+  target: DeployTargetId;
+  createdAt: Date;
+  status: DeploymentStatus;
+  // Short SHA-256 of the deployed files; the files are stored once per hash as a DeploymentSnapshot
+  hash: string;
+  // The host's own id for the deployment, such as a commit SHA
+  revision?: string;
+  url?: string;
+  detail?: string;
+  error?: string;
+}
+
+// The files a deployment published, shared by every record with the same hash
+export interface DeploymentSnapshot {
+  hash: string;
+  files: ProjectFile[];
+}
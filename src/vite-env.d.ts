@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_AI_PROVIDER?: string;
+  readonly VITE_AI_BASE_URL?: string;
+  readonly VITE_AI_MODEL?: string;
+  readonly VITE_VERCEL_API_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
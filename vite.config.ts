@@ -1,14 +1,12 @@
-import { defineConfig, loadEnv } from "vite";
+import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
-  // Load env file based on `mode` in the current directory.
-  // Set the third parameter to '' to load all env variables regardless of the `VITE_` prefix.
-  const env = loadEnv(mode, process.cwd(), '');
-  
+  // Only VITE_-prefixed variables reach the client, through import.meta.env.
+  // Never define API keys here: anything defined is inlined into the public bundle.
   return {
   server: {
     host: true,
@@ -41,9 +39,5 @@ export default defineConfig(({ mode }) => {
     optimizeDeps: {
       include: ['react', 'react-dom', 'lucide-react'],
     },
-    // Make environment variables available to the client
-    define: {
-      'process.env': { ...env, VITE_API_KEY: env.VITE_API_KEY }
-    },
   };
 });
\ No newline at end of file